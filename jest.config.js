@@ -10,5 +10,8 @@ module.exports = {
 	coverageDirectory: 'coverage',
 	coverageReporters: ['text', 'lcov', 'html'],
 	moduleFileExtensions: ['ts', 'js', 'json'],
+	moduleNameMapper: {
+		'^cloudflare:sockets$': '<rootDir>/tests/mocks/cloudflareSockets.ts',
+	},
 	testTimeout: 10000,
 };
@@ -0,0 +1,31 @@
+import type { Env, UptimeData } from './types';
+import type { PendingLatency } from './latency';
+import type { CheckCounters } from './metrics';
+import { readJson } from './storage';
+
+/**
+ * What the scheduler accumulates across cron runs for every monitor. It lives under one key
+ * that each run reads once and writes once, so adding monitors or figures to it never adds
+ * KV writes per run.
+ */
+export interface RunAggregates {
+  /** Response times of the hour in progress. */
+  latency?: PendingLatency;
+  counters?: CheckCounters;
+  /** Last status per site, to tell transitions from repeated results in the status stream. */
+  statuses?: Record<string, UptimeData['status']>;
+}
+
+export const RUN_AGGREGATES_KEY = 'run_aggregates';
+
+export async function loadAggregates(env: Env): Promise<RunAggregates> {
+  return (await readJson<RunAggregates>(env, RUN_AGGREGATES_KEY)) ?? {};
+}
+
+export async function saveAggregates(env: Env, aggregates: RunAggregates): Promise<void> {
+  try {
+    await env.UPTIME_KV.put(RUN_AGGREGATES_KEY, JSON.stringify(aggregates));
+  } catch (error) {
+    console.error('Failed to save run aggregates:', error);
+  }
+}
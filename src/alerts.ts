@@ -0,0 +1,403 @@
+import type { Env, SiteCheck, UptimeData } from './types';
+import { CORS_HEADERS, errorResponse, jsonResponse, readJsonBody } from './http';
+import { monitorTarget } from './monitors';
+import { formatDuration, sleep } from './utils';
+
+export type AlertChannelType = 'discord' | 'slack' | 'webhook';
+export type AlertEvent = 'down' | 'degraded' | 'up';
+
+export interface AlertChannel {
+  id: string;
+  type: AlertChannelType;
+  url: string;
+  /** HMAC secret used to sign generic webhook payloads. */
+  secret?: string;
+  /** Only alert for these monitors; every monitor when omitted. */
+  sites?: string[];
+  /** Only alert for these transitions; all of them when omitted. */
+  events?: AlertEvent[];
+  /** Message templates using `{{site}}`, `{{url}}`, `{{status}}`, `{{reason}}`, `{{error}}`, `{{statusCode}}`, `{{responseTime}}`, `{{duration}}` and `{{timestamp}}`. */
+  templates?: Partial<Record<AlertEvent, string>>;
+}
+
+export interface AlertPayload {
+  event: AlertEvent;
+  site: string;
+  url: string;
+  status: UptimeData['status'];
+  previousStatus: UptimeData['status'];
+  statusCode?: number;
+  error?: string;
+  responseTime: number;
+  timestamp: number;
+  /** When the previous status started, if known. */
+  since?: number;
+  durationMs?: number;
+  message: string;
+}
+
+export const ALERT_CHANNELS_KEY = 'alert_channels';
+export const DEFAULT_TEMPLATES: Record<AlertEvent, string> = {
+  down: '🔴 **{{site}}** is down: {{reason}}',
+  degraded: '🟡 **{{site}}** is degraded: responding in {{responseTime}} ms',
+  up: '🟢 **{{site}}** is back up after {{duration}}'
+};
+
+const CHANNEL_TYPES: AlertChannelType[] = ['discord', 'slack', 'webhook'];
+const ALERT_EVENTS: AlertEvent[] = ['down', 'degraded', 'up'];
+const CHANNEL_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const DELIVERY_ATTEMPTS = 3;
+const DELIVERY_RETRY_DELAY = 500;
+const DELIVERY_TIMEOUT = 10000;
+const REDACTED = '********';
+
+interface TransitionState {
+  status: UptimeData['status'];
+  timestamp: number;
+}
+
+export async function loadAlertChannels(env: Env): Promise<AlertChannel[]> {
+  const stored = await env.UPTIME_KV.get(ALERT_CHANNELS_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const channels = JSON.parse(stored);
+    return Array.isArray(channels) ? channels : [];
+  } catch (error) {
+    console.warn('Invalid JSON in alert channels:', error);
+    return [];
+  }
+}
+
+async function saveAlertChannels(env: Env, channels: AlertChannel[]): Promise<void> {
+  await env.UPTIME_KV.put(ALERT_CHANNELS_KEY, JSON.stringify(channels));
+}
+
+export function renderTemplate(template: string, vars: Record<string, string | number | undefined>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => String(vars[name] ?? ''));
+}
+
+export function buildAlertPayload(site: SiteCheck, previous: UptimeData, data: UptimeData, since?: number): Omit<AlertPayload, 'message'> {
+  const payload: Omit<AlertPayload, 'message'> = {
+    event: data.status === 'down' || data.status === 'degraded' ? data.status : 'up',
+    site: site.name,
+    url: monitorTarget(site),
+    status: data.status,
+    previousStatus: previous.status,
+    responseTime: data.responseTime,
+    timestamp: data.timestamp
+  };
+
+  if (data.statusCode !== undefined) {
+    payload.statusCode = data.statusCode;
+  }
+  if (data.error) {
+    payload.error = data.error;
+  }
+  if (since !== undefined) {
+    payload.since = since;
+    payload.durationMs = data.timestamp - since;
+  }
+
+  return payload;
+}
+
+function renderMessage(channel: AlertChannel, payload: Omit<AlertPayload, 'message'>): string {
+  const template = channel.templates?.[payload.event] ?? DEFAULT_TEMPLATES[payload.event];
+
+  return renderTemplate(template, {
+    site: payload.site,
+    url: payload.url,
+    status: payload.status,
+    error: payload.error,
+    statusCode: payload.statusCode,
+    responseTime: payload.responseTime,
+    reason: payload.error ?? (payload.statusCode !== undefined ? `HTTP ${payload.statusCode}` : 'unknown error'),
+    duration: payload.durationMs !== undefined ? formatDuration(payload.durationMs) : 'an unknown time',
+    timestamp: new Date(payload.timestamp).toISOString()
+  });
+}
+
+async function sign(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Builds the HTTP request for a channel. Generic webhooks are signed with
+ * `X-Monitor-Signature: sha256=HMAC(secret, "<timestamp>.<body>")`.
+ */
+export async function buildAlertRequest(channel: AlertChannel, payload: AlertPayload): Promise<Request> {
+  let body: string;
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'TeyvatArchive-Monitor/1.0'
+  };
+
+  switch (channel.type) {
+    case 'discord':
+      body = JSON.stringify({ content: payload.message.slice(0, 2000), username: 'Teyvat Archive Monitor' });
+      break;
+    case 'slack':
+      body = JSON.stringify({ text: payload.message });
+      break;
+    case 'webhook':
+      body = JSON.stringify(payload);
+      if (channel.secret) {
+        const timestamp = String(Date.now());
+        headers['X-Monitor-Timestamp'] = timestamp;
+        headers['X-Monitor-Signature'] = `sha256=${await sign(channel.secret, `${timestamp}.${body}`)}`;
+      }
+      break;
+  }
+
+  return new Request(channel.url, { method: 'POST', headers, body });
+}
+
+async function deliver(channel: AlertChannel, payload: AlertPayload): Promise<boolean> {
+  const request = await buildAlertRequest(channel, payload);
+
+  for (let attempt = 1; attempt <= DELIVERY_ATTEMPTS; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error(`timed out after ${DELIVERY_TIMEOUT} ms`)), DELIVERY_TIMEOUT);
+    try {
+      const response = await fetch(request.clone(), { signal: controller.signal });
+      if (response.ok) {
+        return true;
+      }
+      console.warn(`Alert delivery to ${channel.id} failed with HTTP ${response.status} (attempt ${attempt}/${DELIVERY_ATTEMPTS})`);
+    } catch (error: any) {
+      console.warn(`Alert delivery to ${channel.id} failed: ${error.message} (attempt ${attempt}/${DELIVERY_ATTEMPTS})`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt < DELIVERY_ATTEMPTS) {
+      await sleep(DELIVERY_RETRY_DELAY * 2 ** (attempt - 1));
+    }
+  }
+
+  console.error(`Giving up on alert delivery to ${channel.id} for ${payload.site} (${payload.event})`);
+  return false;
+}
+
+/**
+ * Sends alerts for a confirmed status transition to every matching channel. Delivery
+ * problems are logged and never thrown, so alerting cannot affect the check itself.
+ * Entering maintenance and coming out of it healthy are silent, and so are monitors that
+ * are down because of a dependency: the root-cause monitor alerts for them. With `ctx`,
+ * deliveries and their retries run after the check through `waitUntil` instead of delaying it.
+ */
+export async function notifyTransition(site: SiteCheck, previous: UptimeData, data: UptimeData, env: Env, ctx?: ExecutionContext): Promise<void> {
+  try {
+    const transitionKey = `last_transition_${site.name}`;
+    const lastTransition = await env.UPTIME_KV.get(transitionKey);
+    let since: number | undefined;
+    if (lastTransition) {
+      try {
+        const state: TransitionState = JSON.parse(lastTransition);
+        since = state.status === previous.status ? state.timestamp : undefined;
+      } catch (error) {
+        console.warn(`Invalid JSON in last_transition for ${site.name}:`, error);
+      }
+    }
+    await env.UPTIME_KV.put(transitionKey, JSON.stringify({ status: data.status, timestamp: data.timestamp }));
+
+    if (data.status === 'maintenance' || (previous.status === 'maintenance' && data.status === 'up')) {
+      return;
+    }
+    if (data.upstream || (previous.upstream && data.status === 'up')) {
+      return;
+    }
+
+    const payload = buildAlertPayload(site, previous, data, since);
+    const channels = (await loadAlertChannels(env)).filter(
+      channel => (!channel.sites || channel.sites.includes(site.name)) && (!channel.events || channel.events.includes(payload.event))
+    );
+
+    const delivery = Promise.all(channels.map(channel => deliver(channel, { ...payload, message: renderMessage(channel, payload) }))).catch(error =>
+      console.error(`Failed to send alerts for ${site.name}:`, error)
+    );
+    if (ctx) {
+      ctx.waitUntil(delivery);
+    } else {
+      await delivery;
+    }
+  } catch (error) {
+    console.error(`Failed to send alerts for ${site.name}:`, error);
+  }
+}
+
+export function validateAlertChannel(input: unknown): { channel?: AlertChannel; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Alert channel must be a JSON object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof raw.id !== 'string' || !CHANNEL_ID_PATTERN.test(raw.id)) {
+    errors.push('id must be 1-64 lowercase letters, digits or dashes and start with a letter or digit');
+  }
+
+  if (!CHANNEL_TYPES.includes(raw.type as AlertChannelType)) {
+    errors.push(`type must be one of ${CHANNEL_TYPES.join(', ')}`);
+  }
+
+  let validUrl = typeof raw.url === 'string';
+  if (validUrl) {
+    try {
+      validUrl = ['http:', 'https:'].includes(new URL(raw.url as string).protocol);
+    } catch {
+      validUrl = false;
+    }
+  }
+  if (!validUrl) {
+    errors.push('url must be a valid http or https URL');
+  }
+
+  if (raw.secret !== undefined && (raw.type !== 'webhook' || typeof raw.secret !== 'string' || raw.secret.length === 0)) {
+    errors.push('secret must be a non-empty string and is only supported for webhook channels');
+  }
+
+  if (raw.sites !== undefined && (!Array.isArray(raw.sites) || !raw.sites.every(site => typeof site === 'string'))) {
+    errors.push('sites must be an array of monitor names');
+  }
+
+  if (raw.events !== undefined && (!Array.isArray(raw.events) || !raw.events.every(event => ALERT_EVENTS.includes(event)))) {
+    errors.push(`events must be an array containing ${ALERT_EVENTS.join(', ')}`);
+  }
+
+  if (raw.templates !== undefined) {
+    const templates = raw.templates as Record<string, unknown>;
+    const valid =
+      typeof templates === 'object' &&
+      templates !== null &&
+      Object.entries(templates).every(([event, template]) => ALERT_EVENTS.includes(event as AlertEvent) && typeof template === 'string');
+    if (!valid) {
+      errors.push(`templates must map ${ALERT_EVENTS.join(', ')} to template strings`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const channel: AlertChannel = { id: raw.id as string, type: raw.type as AlertChannelType, url: raw.url as string };
+  if (raw.secret !== undefined) {
+    channel.secret = raw.secret as string;
+  }
+  if (raw.sites !== undefined) {
+    channel.sites = raw.sites as string[];
+  }
+  if (raw.events !== undefined) {
+    channel.events = raw.events as AlertEvent[];
+  }
+  if (raw.templates !== undefined) {
+    channel.templates = raw.templates as AlertChannel['templates'];
+  }
+
+  return { channel, errors };
+}
+
+function redact(channel: AlertChannel): AlertChannel {
+  return channel.secret ? { ...channel, secret: REDACTED } : channel;
+}
+
+/**
+ * Handles `/api/alerts/channels`, `/api/alerts/channels/:id` and `/api/alerts/channels/:id/test`.
+ * Webhook secrets are never returned; a PUT without `secret` keeps the stored one.
+ */
+export async function handleAlertChannels(request: Request, env: Env, path: string): Promise<Response> {
+  const segments = path.split('/').filter(Boolean).slice(3);
+  const [id, action] = segments;
+
+  if (segments.length > 2 || (action && action !== 'test')) {
+    return errorResponse('Not found', 404);
+  }
+
+  const channels = await loadAlertChannels(env);
+
+  if (!id) {
+    if (request.method === 'GET') {
+      return jsonResponse(channels.map(redact));
+    }
+
+    if (request.method === 'POST') {
+      const { channel, errors } = validateAlertChannel(await readJsonBody(request));
+      if (!channel) {
+        return errorResponse('Invalid alert channel', 400, errors);
+      }
+      if (channels.some(c => c.id === channel.id)) {
+        return errorResponse(`Alert channel '${channel.id}' already exists`, 409);
+      }
+
+      channels.push(channel);
+      await saveAlertChannels(env, channels);
+      return jsonResponse(redact(channel), 201);
+    }
+
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const index = channels.findIndex(c => c.id === id);
+  if (index === -1) {
+    return errorResponse(`Alert channel '${id}' not found`, 404);
+  }
+
+  if (action === 'test') {
+    if (request.method !== 'POST') {
+      return errorResponse('Method not allowed', 405);
+    }
+
+    const payload: Omit<AlertPayload, 'message'> = {
+      event: 'down',
+      site: 'test',
+      url: 'https://example.com',
+      status: 'down',
+      previousStatus: 'up',
+      error: 'This is a test alert',
+      responseTime: 0,
+      timestamp: Date.now()
+    };
+    const delivered = await deliver(channels[index], { ...payload, message: renderMessage(channels[index], payload) });
+    return jsonResponse({ delivered }, delivered ? 200 : 502);
+  }
+
+  if (request.method === 'GET') {
+    return jsonResponse(redact(channels[index]));
+  }
+
+  if (request.method === 'PUT') {
+    const body = await readJsonBody(request);
+    let input = body;
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      const keepSecret = (body as AlertChannel).type === 'webhook' && channels[index].secret;
+      input = { id, ...(keepSecret ? { secret: channels[index].secret } : {}), ...body };
+    }
+
+    const { channel, errors } = validateAlertChannel(input);
+    if (!channel) {
+      return errorResponse('Invalid alert channel', 400, errors);
+    }
+    if (channel.id !== id) {
+      return errorResponse('Alert channel id cannot be changed', 400);
+    }
+
+    channels[index] = channel;
+    await saveAlertChannels(env, channels);
+    return jsonResponse(redact(channel));
+  }
+
+  if (request.method === 'DELETE') {
+    channels.splice(index, 1);
+    await saveAlertChannels(env, channels);
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  return errorResponse('Method not allowed', 405);
+}
@@ -0,0 +1,185 @@
+export type ContentAssertion =
+  | { type: 'contains'; value: string }
+  | { type: 'notContains'; value: string }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'jsonPath'; path: string; equals?: unknown }
+  | { type: 'maxBodySize'; bytes: number };
+
+export interface AssertionFailure {
+  index: number;
+  type: ContentAssertion['type'];
+  message: string;
+}
+
+const ASSERTION_TYPES: ContentAssertion['type'][] = ['contains', 'notContains', 'regex', 'jsonPath', 'maxBodySize'];
+
+/**
+ * Resolves a simple JSON path such as `$.status`, `data.items[0].name` or `checks["db"]`.
+ */
+export function readJsonPath(value: unknown, path: string): { found: boolean; value?: unknown } {
+  const tokens = [...path.replace(/^\$/, '').matchAll(/\["([^"]*)"\]|\[(\d+)\]|([^.[\]]+)/g)].map(
+    match => match[1] ?? match[2] ?? match[3]
+  );
+
+  let current = value;
+  for (const token of tokens) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, token)) {
+      return { found: false };
+    }
+    current = (current as Record<string, unknown>)[token];
+  }
+
+  return { found: true, value: current };
+}
+
+function describe(assertion: ContentAssertion): string {
+  switch (assertion.type) {
+    case 'contains':
+      return `body does not contain ${JSON.stringify(assertion.value)}`;
+    case 'notContains':
+      return `body contains ${JSON.stringify(assertion.value)}`;
+    case 'regex':
+      return `body does not match /${assertion.pattern}/${assertion.flags ?? ''}`;
+    case 'jsonPath':
+      return assertion.equals === undefined
+        ? `JSON path ${assertion.path} does not exist`
+        : `JSON path ${assertion.path} does not equal ${JSON.stringify(assertion.equals)}`;
+    case 'maxBodySize':
+      return `body is larger than ${assertion.bytes} bytes`;
+  }
+}
+
+function passes(assertion: ContentAssertion, body: string, bodySize: number, json: () => unknown): boolean {
+  switch (assertion.type) {
+    case 'contains':
+      return body.includes(assertion.value);
+    case 'notContains':
+      return !body.includes(assertion.value);
+    case 'regex':
+      return new RegExp(assertion.pattern, assertion.flags).test(body);
+    case 'jsonPath': {
+      const result = readJsonPath(json(), assertion.path);
+      if (!result.found) {
+        return false;
+      }
+      return assertion.equals === undefined || JSON.stringify(result.value) === JSON.stringify(assertion.equals);
+    }
+    case 'maxBodySize':
+      return bodySize <= assertion.bytes;
+  }
+}
+
+/**
+ * Reads a response body, giving up as soon as it is known to be larger than `limit` bytes
+ * so an oversized response is never buffered whole. Returns `undefined` in that case.
+ */
+async function readBody(response: Response, limit: number): Promise<{ text: string; size: number } | undefined> {
+  if (Number(response.headers.get('Content-Length')) > limit) {
+    await response.body?.cancel();
+    return undefined;
+  }
+  if (!response.body) {
+    return { text: '', size: 0 };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let size = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return { text: text + decoder.decode(), size };
+    }
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return undefined;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+/**
+ * Reads the response body and runs the assertions in order, returning the first one that fails.
+ * A body larger than every `maxBodySize` limit is not read to the end; the first size
+ * assertion then fails without the others being checked.
+ */
+export async function evaluateAssertions(assertions: ContentAssertion[], response: Response): Promise<AssertionFailure | undefined> {
+  const limits = assertions.flatMap(assertion => (assertion.type === 'maxBodySize' ? [assertion.bytes] : []));
+  const read = await readBody(response, limits.length > 0 ? Math.max(...limits) : Infinity);
+  if (!read) {
+    const index = assertions.findIndex(assertion => assertion.type === 'maxBodySize');
+    return { index, type: 'maxBodySize', message: describe(assertions[index]) };
+  }
+  const { text: body, size: bodySize } = read;
+
+  let parsed: { value?: unknown } | undefined;
+  const json = () => {
+    if (!parsed) {
+      try {
+        parsed = { value: JSON.parse(body) };
+      } catch {
+        parsed = {};
+      }
+    }
+    return parsed.value;
+  };
+
+  for (const [index, assertion] of assertions.entries()) {
+    if (!passes(assertion, body, bodySize, json)) {
+      return { index, type: assertion.type, message: describe(assertion) };
+    }
+  }
+
+  return undefined;
+}
+
+export function validateAssertions(input: unknown): string[] {
+  if (!Array.isArray(input)) {
+    return ['assertions must be an array'];
+  }
+
+  const errors: string[] = [];
+
+  input.forEach((raw, index) => {
+    const prefix = `assertions[${index}]`;
+
+    if (!raw || typeof raw !== 'object' || !ASSERTION_TYPES.includes(raw.type)) {
+      errors.push(`${prefix}.type must be one of ${ASSERTION_TYPES.join(', ')}`);
+      return;
+    }
+
+    switch (raw.type) {
+      case 'contains':
+      case 'notContains':
+        if (typeof raw.value !== 'string' || raw.value.length === 0) {
+          errors.push(`${prefix}.value must be a non-empty string`);
+        }
+        break;
+      case 'regex':
+        if (typeof raw.pattern !== 'string' || (raw.flags !== undefined && typeof raw.flags !== 'string')) {
+          errors.push(`${prefix}.pattern and flags must be strings`);
+          break;
+        }
+        try {
+          new RegExp(raw.pattern, raw.flags);
+        } catch {
+          errors.push(`${prefix}.pattern is not a valid regular expression`);
+        }
+        break;
+      case 'jsonPath':
+        if (typeof raw.path !== 'string' || raw.path.length === 0) {
+          errors.push(`${prefix}.path must be a non-empty string`);
+        }
+        break;
+      case 'maxBodySize':
+        if (typeof raw.bytes !== 'number' || !Number.isInteger(raw.bytes) || raw.bytes <= 0) {
+          errors.push(`${prefix}.bytes must be a positive integer`);
+        }
+        break;
+    }
+  });
+
+  return errors;
+}
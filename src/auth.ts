@@ -0,0 +1,220 @@
+import type { Env } from './types';
+import { CORS_HEADERS, errorResponse, jsonResponse, readJsonBody } from './http';
+
+export type ApiScope = 'read' | 'write:monitors' | 'write:incidents' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  /** SHA-256 of the key; the key itself is only returned once, when it is created. */
+  hash: string;
+  /** First characters of the key, so it can be recognised in the key list. */
+  prefix: string;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export const API_KEYS_KEY = 'api_keys';
+export const API_SCOPES: ApiScope[] = ['read', 'write:monitors', 'write:incidents', 'admin'];
+
+const KEY_PREFIX = 'uk_';
+const MAX_NAME_LENGTH = 64;
+
+// Read routes that need no key unless ANONYMOUS_READS is set to 'false'
+const PUBLIC_ROUTES = ['/', '/badge/', '/feed.atom', '/feed.rss', '/metrics', '/api/status', '/api/stream', '/api/history', '/api/export', '/api/incidents', '/api/uptime', '/api/latency', '/api/schedule', '/api/maintenance'];
+
+const matches = (path: string, route: string) => path === route || (route !== '/' && path.startsWith(route.endsWith('/') ? route : `${route}/`));
+
+/**
+ * The scope a request needs, or `null` when it is served anonymously. Push endpoints
+ * authenticate with their monitor's token instead of an API key.
+ */
+export function requiredScope(method: string, path: string, env: Env): ApiScope | null {
+  if (matches(path, '/api/push')) {
+    return null;
+  }
+  if (matches(path, '/api/keys') || matches(path, '/api/alerts/channels')) {
+    return 'admin';
+  }
+  if (matches(path, '/api/monitors')) {
+    return method === 'GET' ? 'read' : 'write:monitors';
+  }
+  if (matches(path, '/api/maintenance') && method !== 'GET') {
+    return 'write:incidents';
+  }
+  if (PUBLIC_ROUTES.some(route => matches(path, route))) {
+    return env.ANONYMOUS_READS === 'false' ? 'read' : null;
+  }
+  return null;
+}
+
+/** `admin` grants everything and any write scope also grants `read`. */
+export const hasScope = (scopes: ApiScope[], scope: ApiScope) =>
+  scopes.includes('admin') || scopes.includes(scope) || (scope === 'read' && scopes.some(s => s.startsWith('write:')));
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function loadApiKeys(env: Env): Promise<ApiKey[]> {
+  const stored = await env.UPTIME_KV.get(API_KEYS_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const keys = JSON.parse(stored);
+    return Array.isArray(keys) ? keys : [];
+  } catch (error) {
+    console.warn('Invalid JSON in API keys:', error);
+    return [];
+  }
+}
+
+async function saveApiKeys(env: Env, keys: ApiKey[]): Promise<void> {
+  await env.UPTIME_KV.put(API_KEYS_KEY, JSON.stringify(keys));
+}
+
+export interface AuthResult {
+  /** The 401 or 403 response to send when the request is not allowed. */
+  denied?: Response;
+  /** Scopes of the caller's key; empty on routes served anonymously. */
+  scopes: ApiScope[];
+}
+
+const unauthorized = (message: string) => jsonResponse({ error: message }, 401, { 'WWW-Authenticate': 'Bearer' });
+
+/**
+ * Checks the request's `Authorization: Bearer <key>` header against the scope its route
+ * needs. The `ADMIN_API_KEY` secret is an admin key that does not live in KV, to create the
+ * first keys with.
+ */
+export async function authorize(request: Request, env: Env, path: string): Promise<AuthResult> {
+  const scope = requiredScope(request.method, path, env);
+  if (!scope) {
+    return { scopes: [] };
+  }
+
+  const [scheme, token] = (request.headers.get('Authorization') ?? '').split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return { denied: unauthorized('Authentication required'), scopes: [] };
+  }
+
+  const hash = await sha256(token);
+  let scopes: ApiScope[] | undefined;
+  if (env.ADMIN_API_KEY && hash === (await sha256(env.ADMIN_API_KEY))) {
+    scopes = ['admin'];
+  } else {
+    const key = (await loadApiKeys(env)).find(k => k.hash === hash);
+    if (key && (key.expiresAt === undefined || key.expiresAt > Date.now())) {
+      scopes = key.scopes;
+    }
+  }
+
+  if (!scopes) {
+    return { denied: unauthorized('Invalid API key'), scopes: [] };
+  }
+  if (!hasScope(scopes, scope)) {
+    return { denied: errorResponse('Insufficient scope', 403, [`${request.method} ${path} requires the ${scope} scope`]), scopes };
+  }
+  return { scopes };
+}
+
+export function validateApiKeyInput(input: unknown): { name?: string; scopes?: ApiScope[]; expiresAt?: number; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['API key must be a JSON object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof raw.name !== 'string' || raw.name.trim().length === 0 || raw.name.length > MAX_NAME_LENGTH) {
+    errors.push(`name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  if (
+    !Array.isArray(raw.scopes) ||
+    raw.scopes.length === 0 ||
+    raw.scopes.some(scope => !API_SCOPES.includes(scope)) ||
+    new Set(raw.scopes).size !== raw.scopes.length
+  ) {
+    errors.push(`scopes must be a non-empty list of ${API_SCOPES.join(', ')} without duplicates`);
+  }
+
+  if (raw.expiresAt !== undefined && (typeof raw.expiresAt !== 'number' || !Number.isInteger(raw.expiresAt) || raw.expiresAt <= Date.now())) {
+    errors.push('expiresAt must be a future timestamp in epoch milliseconds');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return { name: raw.name as string, scopes: raw.scopes as ApiScope[], expiresAt: raw.expiresAt as number | undefined, errors };
+}
+
+const describeKey = ({ hash, ...key }: ApiKey) => key;
+
+/**
+ * Handles `/api/keys` and `/api/keys/:id`. A created key is returned once as `key`; only its
+ * hash is stored, so a lost key has to be revoked and replaced.
+ */
+export async function handleApiKeys(request: Request, env: Env, path: string): Promise<Response> {
+  const segments = path.split('/').filter(Boolean).slice(2);
+  const [id] = segments;
+
+  if (segments.length > 1) {
+    return errorResponse('Not found', 404);
+  }
+
+  const keys = await loadApiKeys(env);
+
+  if (!id) {
+    if (request.method === 'GET') {
+      return jsonResponse(keys.map(describeKey));
+    }
+
+    if (request.method === 'POST') {
+      const { name, scopes, expiresAt, errors } = validateApiKeyInput(await readJsonBody(request));
+      if (!name || !scopes) {
+        return errorResponse('Invalid API key', 400, errors);
+      }
+
+      const secret = `${KEY_PREFIX}${crypto.randomUUID().replace(/-/g, '')}${crypto.randomUUID().replace(/-/g, '')}`;
+      const key: ApiKey = {
+        id: crypto.randomUUID().slice(0, 8),
+        name,
+        scopes,
+        hash: await sha256(secret),
+        prefix: secret.slice(0, KEY_PREFIX.length + 6),
+        createdAt: Date.now()
+      };
+      if (expiresAt !== undefined) {
+        key.expiresAt = expiresAt;
+      }
+
+      keys.push(key);
+      await saveApiKeys(env, keys);
+      return jsonResponse({ ...describeKey(key), key: secret }, 201);
+    }
+
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const index = keys.findIndex(k => k.id === id);
+  if (index === -1) {
+    return errorResponse(`API key '${id}' not found`, 404);
+  }
+
+  if (request.method === 'GET') {
+    return jsonResponse(describeKey(keys[index]));
+  }
+
+  if (request.method === 'DELETE') {
+    keys.splice(index, 1);
+    await saveApiKeys(env, keys);
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  return errorResponse('Method not allowed', 405);
+}
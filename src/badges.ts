@@ -0,0 +1,141 @@
+import type { Env, UptimeData } from './types';
+import { queryIncidents } from './incidents';
+import { loadMaintenanceWindows } from './maintenance';
+import { loadMonitors } from './monitors';
+import { readJson } from './storage';
+import { computeUptime, parseWindow, withStartTime } from './uptime';
+import { escapeHtml } from './utils';
+
+export const BADGE_COLORS = {
+  brightgreen: '#4c1',
+  green: '#97ca00',
+  yellow: '#dfb317',
+  orange: '#fe7d37',
+  red: '#e05d44',
+  blue: '#007ec6',
+  grey: '#9f9f9f'
+};
+
+type BadgeColor = keyof typeof BADGE_COLORS;
+
+const STATUS_COLORS: Record<UptimeData['status'], BadgeColor> = {
+  up: 'brightgreen',
+  degraded: 'yellow',
+  down: 'red',
+  maintenance: 'blue'
+};
+const UPTIME_THRESHOLDS: [number, BadgeColor][] = [
+  [99.9, 'brightgreen'],
+  [99, 'green'],
+  [95, 'yellow'],
+  [90, 'orange']
+];
+const LATENCY_THRESHOLDS: [number, BadgeColor][] = [
+  [300, 'brightgreen'],
+  [800, 'green'],
+  [2000, 'yellow'],
+  [5000, 'orange']
+];
+
+// Rough Verdana 11px advance widths, close enough for shields-style badges
+const textWidth = (text: string) => Math.round([...text].reduce((width, char) => width + (/[ilj.,:;|!'1]/.test(char) ? 3.5 : /[mwMW%]/.test(char) ? 9.5 : 7), 0)) + 10;
+
+export function renderBadge(label: string, message: string, color: BadgeColor): string {
+  const labelWidth = textWidth(label);
+  const messageWidth = textWidth(message);
+  const width = labelWidth + messageWidth;
+  const safeLabel = escapeHtml(label);
+  const safeMessage = escapeHtml(message);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${safeLabel}: ${safeMessage}">
+<title>${safeLabel}: ${safeMessage}</title>
+<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>
+<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+<g clip-path="url(#r)">
+<rect width="${labelWidth}" height="20" fill="#555"/>
+<rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${BADGE_COLORS[color]}"/>
+<rect width="${width}" height="20" fill="url(#s)"/>
+</g>
+<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">
+<text x="${labelWidth / 2}" y="15" fill="#010101" fill-opacity=".3">${safeLabel}</text>
+<text x="${labelWidth / 2}" y="14">${safeLabel}</text>
+<text x="${labelWidth + messageWidth / 2}" y="15" fill="#010101" fill-opacity=".3">${safeMessage}</text>
+<text x="${labelWidth + messageWidth / 2}" y="14">${safeMessage}</text>
+</g>
+</svg>`;
+}
+
+function badgeResponse(label: string, message: string, color: BadgeColor, maxAge: number, status = 200): Response {
+  return new Response(renderBadge(label, message, color), {
+    status,
+    headers: {
+      'Content-Type': 'image/svg+xml; charset=utf-8',
+      'Cache-Control': `public, max-age=${maxAge}, s-maxage=${maxAge}`,
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
+
+function thresholdColor(value: number, thresholds: [number, BadgeColor][], higherIsBetter: boolean): BadgeColor {
+  for (const [limit, color] of thresholds) {
+    if (higherIsBetter ? value >= limit : value < limit) {
+      return color;
+    }
+  }
+  return 'red';
+}
+
+/**
+ * Handles `/badge/:site`, `/badge/:site/uptime` and `/badge/:site/latency`.
+ * `label` overrides the left-hand text; unknown monitors get a grey 404 badge.
+ */
+export async function handleBadge(env: Env, path: string, params: URLSearchParams): Promise<Response> {
+  const [siteName, kind = 'status', ...rest] = path.split('/').filter(Boolean).slice(1);
+  const customLabel = params.get('label');
+
+  if (!siteName || rest.length > 0 || !['status', 'uptime', 'latency'].includes(kind)) {
+    return badgeResponse(customLabel ?? 'badge', 'not found', 'grey', 300, 404);
+  }
+
+  const site = (await loadMonitors(env)).find(monitor => monitor.name === siteName);
+  if (!site) {
+    return badgeResponse(customLabel ?? siteName, 'unknown monitor', 'grey', 300, 404);
+  }
+
+  if (kind === 'uptime') {
+    const range = parseWindow(params, Date.now(), '30d');
+    if (typeof range === 'string') {
+      return badgeResponse(customLabel ?? 'uptime', 'invalid window', 'grey', 300, 400);
+    }
+
+    const incidents = await queryIncidents(env, { site: site.name, from: range.from, to: range.to });
+    const { uptimePercent } = computeUptime(await withStartTime(env, site), incidents, range.from, range.to, Date.now(), await loadMaintenanceWindows(env));
+    const label = customLabel ?? `uptime ${params.get('window') ?? '30d'}`;
+    if (uptimePercent === null) {
+      return badgeResponse(label, 'no data', 'grey', 300);
+    }
+
+    // Rounded down so anything short of full uptime never shows as 100%
+    const rounded = uptimePercent === 100 || uptimePercent === 0 ? String(uptimePercent) : (Math.floor(uptimePercent * 100) / 100).toFixed(2);
+    return badgeResponse(label, `${rounded}%`, thresholdColor(uptimePercent, UPTIME_THRESHOLDS, true), 300);
+  }
+
+  const current = await readJson<UptimeData>(env, `current_${site.name}`);
+
+  if (kind === 'latency') {
+    const label = customLabel ?? 'response time';
+    if (!current || current.status === 'down' || current.status === 'maintenance') {
+      return badgeResponse(label, current?.status ?? 'no data', current ? STATUS_COLORS[current.status] : 'grey', 60);
+    }
+    return badgeResponse(label, `${current.responseTime} ms`, thresholdColor(current.responseTime, LATENCY_THRESHOLDS, false), 60);
+  }
+
+  const label = customLabel ?? site.name;
+  if (site.paused) {
+    return badgeResponse(label, 'paused', 'grey', 60);
+  }
+  if (!current) {
+    return badgeResponse(label, 'no data', 'grey', 60);
+  }
+  return badgeResponse(label, current.status, STATUS_COLORS[current.status], 60);
+}
@@ -0,0 +1,115 @@
+import type { CheckStatus, Env, SiteCheck, UptimeData } from './types';
+import { sleep } from './utils';
+
+export interface ConfirmationPolicy {
+  /** Extra attempts within the same run before a failed check counts as failed. */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for every further retry. */
+  retryDelay?: number;
+  /** Consecutive runs required before a site is reported in a worse state (up → degraded → down). */
+  failureThreshold?: number;
+  /** Consecutive runs required before a site is reported in a better state again. */
+  recoveryThreshold?: number;
+}
+
+const MAX_RETRIES = 5;
+const MAX_RETRY_DELAY = 10000;
+const MAX_THRESHOLD = 20;
+const DEFAULT_RETRY_DELAY = 1000;
+const SEVERITY: Record<UptimeData['status'], number> = { up: 0, maintenance: 0, degraded: 1, down: 2 };
+
+/**
+ * Runs `attempt` once and then retries failed results with exponential backoff
+ * according to the site's confirmation policy.
+ */
+export async function runWithRetries(site: SiteCheck, attempt: () => Promise<UptimeData>): Promise<UptimeData> {
+  const retries = site.confirmation?.retries ?? 0;
+  const delay = site.confirmation?.retryDelay ?? DEFAULT_RETRY_DELAY;
+
+  let data = await attempt();
+  let attempts = 1;
+
+  while (data.status === 'down' && attempts <= retries) {
+    await sleep(delay * 2 ** (attempts - 1));
+    data = await attempt();
+    attempts++;
+  }
+
+  if (attempts > 1) {
+    data.attempts = attempts;
+  }
+  return data;
+}
+
+/**
+ * Holds back a status transition until it has been observed in enough consecutive runs.
+ * While a transition is pending the previous confirmed status is kept, the result is flagged
+ * as `suspected` and `observedStatus` carries what this run actually saw.
+ */
+export async function applyConfirmation(site: SiteCheck, data: UptimeData, env: Env): Promise<UptimeData> {
+  const failureThreshold = site.confirmation?.failureThreshold ?? 1;
+  const recoveryThreshold = site.confirmation?.recoveryThreshold ?? 1;
+
+  if (failureThreshold <= 1 && recoveryThreshold <= 1) {
+    return data;
+  }
+
+  const current = await env.UPTIME_KV.get(`current_${site.name}`);
+  if (!current) {
+    return data;
+  }
+
+  let previous: UptimeData;
+  try {
+    previous = JSON.parse(current);
+  } catch (error) {
+    console.warn(`Invalid JSON in current status for ${site.name}:`, error);
+    return data;
+  }
+
+  // Leaving maintenance there is no confirmed status to hold on to
+  if (previous.status === data.status || previous.status === 'maintenance') {
+    return data;
+  }
+
+  const consecutive = previous.suspected && previous.observedStatus === data.status ? (previous.consecutive ?? 1) + 1 : 1;
+  const threshold = SEVERITY[data.status] > SEVERITY[previous.status] ? failureThreshold : recoveryThreshold;
+
+  if (consecutive >= threshold) {
+    return data;
+  }
+
+  return {
+    ...data,
+    status: previous.status,
+    observedStatus: data.status as CheckStatus,
+    suspected: true,
+    consecutive
+  };
+}
+
+export function validateConfirmation(input: unknown): string[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return ['confirmation must be an object'];
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const isInteger = (value: unknown, min: number, max: number) =>
+    value === undefined || (typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max);
+
+  if (!isInteger(raw.retries, 0, MAX_RETRIES)) {
+    errors.push(`confirmation.retries must be an integer between 0 and ${MAX_RETRIES}`);
+  }
+  if (!isInteger(raw.retryDelay, 0, MAX_RETRY_DELAY)) {
+    errors.push(`confirmation.retryDelay must be an integer between 0 and ${MAX_RETRY_DELAY} milliseconds`);
+  }
+  if (!isInteger(raw.failureThreshold, 1, MAX_THRESHOLD)) {
+    errors.push(`confirmation.failureThreshold must be an integer between 1 and ${MAX_THRESHOLD}`);
+  }
+  if (!isInteger(raw.recoveryThreshold, 1, MAX_THRESHOLD)) {
+    errors.push(`confirmation.recoveryThreshold must be an integer between 1 and ${MAX_THRESHOLD}`);
+  }
+
+  return errors;
+}
@@ -0,0 +1,128 @@
+import type { Env, SiteCheck, UptimeData } from './types';
+import { loadMonitors } from './monitors';
+import { DEFAULT_INTERVAL } from './scheduler';
+import { readJson } from './storage';
+
+export interface DependencyReport {
+  /** Declared dependencies of every monitor that has any. */
+  graph: Record<string, string[]>;
+  /** Root-cause monitors mapped to the monitors that are down because of them. */
+  rootCauses: Record<string, string[]>;
+}
+
+/**
+ * Follows dependencies from `start` and returns the first cycle found, as a path that
+ * begins and ends with the same monitor.
+ */
+function findCycle(graph: Map<string, string[]>, start: string): string[] | undefined {
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | undefined => {
+    const index = path.indexOf(name);
+    if (index !== -1) {
+      return [...path.slice(index), name];
+    }
+    path.push(name);
+    for (const dependency of graph.get(name) ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    return undefined;
+  };
+
+  return visit(start);
+}
+
+/**
+ * Checks a monitor's dependencies against the registry it is about to be saved into:
+ * every dependency has to exist and the graph has to stay acyclic.
+ */
+export function validateDependencies(monitor: SiteCheck, monitors: SiteCheck[]): string[] {
+  if (!monitor.dependsOn) {
+    return [];
+  }
+
+  const names = new Set(monitors.map(m => m.name));
+  const unknown = monitor.dependsOn.filter(name => !names.has(name));
+  if (unknown.length > 0) {
+    return [`dependsOn refers to unknown monitors: ${unknown.join(', ')}`];
+  }
+
+  const graph = new Map(monitors.map(m => [m.name, m.dependsOn ?? []]));
+  graph.set(monitor.name, monitor.dependsOn);
+  const cycle = findCycle(graph, monitor.name);
+  return cycle ? [`dependsOn would create a cycle: ${cycle.join(' → ')}`] : [];
+}
+
+/**
+ * Groups monitors so that each one comes after the monitors it depends on, letting a cron
+ * run check upstream monitors first. Dependencies outside `sites` are ignored.
+ */
+export function dependencyLevels(sites: SiteCheck[]): SiteCheck[][] {
+  const byName = new Map(sites.map(site => [site.name, site]));
+  const levels = new Map<string, number>();
+
+  const level = (site: SiteCheck, seen: Set<string>): number => {
+    const known = levels.get(site.name);
+    if (known !== undefined) {
+      return known;
+    }
+    // Cycles cannot be saved through the API; break them rather than recurse forever
+    seen.add(site.name);
+    const upstream = (site.dependsOn ?? []).map(name => byName.get(name)).filter((dependency): dependency is SiteCheck => !!dependency && !seen.has(dependency.name));
+    const result = upstream.length > 0 ? Math.max(...upstream.map(dependency => level(dependency, seen))) + 1 : 0;
+    seen.delete(site.name);
+    levels.set(site.name, result);
+    return result;
+  };
+
+  const grouped: SiteCheck[][] = [];
+  for (const site of sites) {
+    (grouped[level(site, new Set())] ??= []).push(site);
+  }
+  return grouped.filter(Boolean);
+}
+
+/**
+ * Returns the root-cause monitor when one of the site's dependencies is down: the
+ * dependency itself, or its own root cause when it is down because of something further up.
+ * A dependency's result older than its own interval, e.g. because it is paused, is not
+ * trusted either way: dependencies are never probed just to attribute a failure.
+ */
+export async function findUpstream(site: SiteCheck, env: Env, now = Date.now()): Promise<string | undefined> {
+  if (!site.dependsOn?.length) {
+    return undefined;
+  }
+
+  const monitors = await loadMonitors(env);
+  for (const dependency of site.dependsOn) {
+    const current = await readJson<UptimeData>(env, `current_${dependency}`);
+    const interval = monitors.find(monitor => monitor.name === dependency)?.interval ?? DEFAULT_INTERVAL;
+    if (current?.status === 'down' && now - current.timestamp <= interval * 60 * 1000) {
+      return current.upstream ?? dependency;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds the `_dependencies` section of `/api/status` from the monitors' current statuses.
+ */
+export function dependencyReport(monitors: SiteCheck[], statuses: Record<string, UptimeData | null>): DependencyReport {
+  const report: DependencyReport = { graph: {}, rootCauses: {} };
+
+  for (const site of monitors) {
+    if (site.dependsOn?.length) {
+      report.graph[site.name] = site.dependsOn;
+    }
+    const upstream = statuses[site.name]?.upstream;
+    if (statuses[site.name]?.status === 'down' && upstream) {
+      (report.rootCauses[upstream] ??= []).push(site.name);
+    }
+  }
+
+  return report;
+}
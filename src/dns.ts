@@ -0,0 +1,135 @@
+import type { DnsCheck, UptimeData } from './types';
+import { isHostname } from './utils';
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'TXT' | 'MX';
+
+interface DohAnswer {
+  name: string;
+  type: number;
+  TTL?: number;
+  data: string;
+}
+
+/** Response of the JSON DNS-over-HTTPS API (`application/dns-json`). */
+interface DohResponse {
+  Status: number;
+  Answer?: DohAnswer[];
+}
+
+export const DEFAULT_RESOLVER = 'https://cloudflare-dns.com/dns-query';
+
+const RECORD_TYPES: Record<DnsRecordType, number> = { A: 1, CNAME: 5, MX: 15, TXT: 16, AAAA: 28 };
+const RCODES: Record<number, string> = { 1: 'FORMERR', 2: 'SERVFAIL', 3: 'NXDOMAIN', 4: 'NOTIMP', 5: 'REFUSED' };
+const MAX_EXPECTED = 20;
+
+/**
+ * Normalizes record data so expected values can be written naturally: lowercase names
+ * without the trailing dot, and TXT strings without their quotes.
+ */
+export function normalizeRecord(type: DnsRecordType, data: string): string {
+  if (type === 'TXT') {
+    return data.replace(/^"|"$/g, '').replace(/"\s*"/g, '');
+  }
+  return data.trim().toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Resolves the monitor's record through its DoH resolver. The check fails on a resolver
+ * error, an empty answer or when one of the `expected` values is missing from the answer.
+ */
+export async function probeDns(site: DnsCheck): Promise<UptimeData> {
+  const start = Date.now();
+  const timestamp = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), site.timeout);
+  let data: UptimeData;
+
+  try {
+    const url = new URL(site.resolver ?? DEFAULT_RESOLVER);
+    url.searchParams.set('name', site.host);
+    url.searchParams.set('type', site.recordType);
+
+    const response = await fetch(url.toString(), {
+      signal: controller.signal,
+      headers: { Accept: 'application/dns-json' }
+    });
+    if (!response.ok) {
+      throw new Error(`Resolver responded with HTTP ${response.status}`);
+    }
+
+    const body: DohResponse = await response.json();
+    const responseTime = Date.now() - start;
+    const resolved = (body.Answer ?? [])
+      .filter(answer => answer.type === RECORD_TYPES[site.recordType])
+      .map(answer => normalizeRecord(site.recordType, answer.data));
+
+    let error: string | undefined;
+    if (body.Status !== 0) {
+      error = `DNS query failed with ${RCODES[body.Status] ?? `rcode ${body.Status}`}`;
+    } else if (resolved.length === 0) {
+      error = `No ${site.recordType} records for ${site.host}`;
+    } else {
+      const missing = (site.expected ?? []).filter(value => !resolved.includes(normalizeRecord(site.recordType, value)));
+      if (missing.length > 0) {
+        error = `Missing expected ${site.recordType} records: ${missing.join(', ')}`;
+      }
+    }
+
+    data = {
+      status: error ? 'down' : 'up',
+      responseTime,
+      resolved,
+      timestamp
+    };
+    if (error) {
+      data.error = error;
+    }
+  } catch (error: any) {
+    data = {
+      status: 'down',
+      error: error.message,
+      responseTime: Date.now() - start,
+      timestamp
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  return data;
+}
+
+export function validateDnsOptions(raw: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const recordTypes = Object.keys(RECORD_TYPES);
+
+  if (!isHostname(raw.host)) {
+    errors.push('host must be a hostname');
+  }
+
+  if (!recordTypes.includes(raw.recordType as string)) {
+    errors.push(`recordType must be one of ${recordTypes.join(', ')}`);
+  }
+
+  if (raw.resolver !== undefined) {
+    let validResolver = typeof raw.resolver === 'string';
+    if (validResolver) {
+      try {
+        validResolver = ['http:', 'https:'].includes(new URL(raw.resolver as string).protocol);
+      } catch {
+        validResolver = false;
+      }
+    }
+    if (!validResolver) {
+      errors.push('resolver must be a valid http or https URL');
+    }
+  }
+
+  if (
+    raw.expected !== undefined &&
+    (!Array.isArray(raw.expected) || raw.expected.length === 0 || raw.expected.length > MAX_EXPECTED || !raw.expected.every(value => typeof value === 'string' && value.length > 0))
+  ) {
+    errors.push(`expected must be an array of 1-${MAX_EXPECTED} record values`);
+  }
+
+  return errors;
+}
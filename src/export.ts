@@ -0,0 +1,91 @@
+import type { Env, UptimeData } from './types';
+import { CORS_HEADERS, errorResponse, parseTimeParam } from './http';
+import { historySegments } from './history';
+import { loadMonitors } from './monitors';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+const FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+const CSV_COLUMNS = ['site', 'timestamp', 'time', 'status', 'statusCode', 'responseTime', 'error'];
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson'
+};
+
+// RFC 4180: fields with separators, quotes or line breaks are quoted and quotes doubled
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatExportRow(format: ExportFormat, site: string, data: UptimeData): string {
+  if (format === 'ndjson') {
+    return `${JSON.stringify({ site, ...data })}\n`;
+  }
+
+  const time = new Date(data.timestamp).toISOString();
+  return `${[site, data.timestamp, time, data.status, data.statusCode, data.responseTime, data.error].map(csvField).join(',')}\r\n`;
+}
+
+async function* exportChunks(env: Env, format: ExportFormat, sites: string[], from: number | null, to: number | null, now: number): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield `${CSV_COLUMNS.join(',')}\r\n`;
+  }
+  for (const site of sites) {
+    for await (const entries of historySegments(env, site, from, to, now)) {
+      yield entries.map(data => formatExportRow(format, site, data)).join('');
+    }
+  }
+}
+
+/**
+ * Handles `/api/export`: every history entry of one site, or of all sites when `site` is
+ * omitted, as CSV or NDJSON. The body is streamed a day segment at a time, so exports are
+ * not capped like `/api/history` and never held in memory as a whole.
+ */
+export async function handleExport(env: Env, params: URLSearchParams): Promise<Response> {
+  const format = (params.get('format') ?? 'csv') as ExportFormat;
+  if (!FORMATS.includes(format)) {
+    return errorResponse(`format must be one of ${FORMATS.join(', ')}`, 400);
+  }
+
+  const from = parseTimeParam(params.get('from'));
+  const to = parseTimeParam(params.get('to'));
+  if (from === undefined || to === undefined) {
+    return errorResponse('from and to must be epoch milliseconds or ISO 8601 dates', 400);
+  }
+  if (from !== null && to !== null && from > to) {
+    return errorResponse('from must not be after to', 400);
+  }
+
+  const siteName = params.get('site');
+  const monitors = await loadMonitors(env);
+  const sites = siteName ? monitors.filter(monitor => monitor.name === siteName) : monitors;
+
+  if (siteName && sites.length === 0) {
+    return errorResponse(`Monitor '${siteName}' not found`, 404);
+  }
+
+  const now = Date.now();
+  const encoder = new TextEncoder();
+  const iterator = exportChunks(env, format, sites.map(site => site.name), from, to, now);
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    }
+  }, { highWaterMark: 0 });
+
+  const filename = `uptime-history-${siteName ?? 'all'}-${new Date(now).toISOString().slice(0, 10)}.${format}`;
+  return new Response(body, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      ...CORS_HEADERS
+    }
+  });
+}
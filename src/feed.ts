@@ -0,0 +1,196 @@
+import type { Env, UptimeData } from './types';
+import { errorResponse } from './http';
+import { readHistory } from './history';
+import { describeCause, queryIncidents, type Incident } from './incidents';
+import { loadMonitors } from './monitors';
+import { escapeHtml, formatDuration, formatTime } from './utils';
+
+export type FeedFormat = 'atom' | 'rss';
+
+export interface FeedEntry {
+  /** Stable across requests and hosts, so readers never show an entry twice. */
+  id: string;
+  site: string;
+  category: 'incident' | 'transition';
+  title: string;
+  summary: string;
+  published: number;
+  updated: number;
+}
+
+const FEED_TITLE = 'Teyvat Archive Status';
+const MAX_ENTRIES = 50;
+const HISTORY_LIMIT = 1000;
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8'
+};
+
+const STREAK_NAMES: Record<UptimeData['status'], string> = {
+  up: 'uptime',
+  degraded: 'degraded performance',
+  down: 'downtime',
+  maintenance: 'maintenance'
+};
+
+function incidentEntry(incident: Incident, now: number): FeedEntry {
+  const problem = incident.severity === 'degraded' ? 'degraded' : 'down';
+  const cause = describeCause(incident);
+  const entry = {
+    id: `urn:teyvat-uptime:incident:${incident.id}`,
+    site: incident.site,
+    category: 'incident' as const,
+    published: incident.startedAt
+  };
+
+  if (incident.resolvedAt === undefined) {
+    return {
+      ...entry,
+      title: `[Ongoing] ${incident.site} is ${problem}`,
+      summary: `${incident.site} has been ${problem} since ${formatTime(incident.startedAt)} (${formatDuration(now - incident.startedAt)} so far). Cause: ${cause}.`,
+      updated: incident.startedAt
+    };
+  }
+
+  const duration = formatDuration(incident.resolvedAt - incident.startedAt);
+  return {
+    ...entry,
+    title: `[Resolved] ${incident.site} was ${problem} for ${duration}`,
+    summary: `${incident.site} was ${problem} from ${formatTime(incident.startedAt)} to ${formatTime(incident.resolvedAt)} (${duration}). Cause: ${cause}.`,
+    updated: incident.resolvedAt
+  };
+}
+
+const transitionTitle = (site: string, data: UptimeData) => (data.status === 'maintenance' ? `${site} is in maintenance` : `${site} is ${data.status}`);
+
+function describeResult(data: UptimeData): string {
+  if (data.status === 'degraded') {
+    return `: slow responses (${data.responseTime} ms)`;
+  }
+  if (data.status !== 'down') {
+    return '';
+  }
+  return `: ${data.upstream ? `Upstream ${data.upstream} is down` : data.error ?? (data.statusCode !== undefined ? `HTTP ${data.statusCode}` : 'Unknown cause')}`;
+}
+
+/**
+ * Turns a site's history, oldest first, into one entry per status change. Recoveries say how
+ * long the previous status lasted, counted from the first check that reported it.
+ */
+export function transitionEntries(site: string, history: UptimeData[]): FeedEntry[] {
+  const entries: FeedEntry[] = [];
+  let since: UptimeData | undefined;
+
+  for (const data of history) {
+    if (since && since.status !== data.status) {
+      const lasted = `${formatDuration(data.timestamp - since.timestamp)} of ${STREAK_NAMES[since.status]}`;
+      entries.push({
+        id: `urn:teyvat-uptime:transition:${site}:${data.timestamp}`,
+        site,
+        category: 'transition',
+        title: transitionTitle(site, data),
+        summary: `${site} changed from ${since.status} to ${data.status} at ${formatTime(data.timestamp)} after ${lasted}${describeResult(data)}.`,
+        published: data.timestamp,
+        updated: data.timestamp
+      });
+    }
+    if (!since || since.status !== data.status) {
+      since = data;
+    }
+  }
+
+  return entries;
+}
+
+const isoDate = (timestamp: number) => new Date(timestamp).toISOString();
+
+function renderAtom(entries: FeedEntry[], feedId: string, title: string, selfUrl: string, pageUrl: string, updated: number): string {
+  const items = entries.map(entry => `
+  <entry>
+    <id>${escapeHtml(entry.id)}</id>
+    <title>${escapeHtml(entry.title)}</title>
+    <published>${isoDate(entry.published)}</published>
+    <updated>${isoDate(entry.updated)}</updated>
+    <link rel="alternate" href="${escapeHtml(pageUrl)}"/>
+    <category term="${entry.category}"/>
+    <summary type="text">${escapeHtml(entry.summary)}</summary>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeHtml(feedId)}</id>
+  <title>${escapeHtml(title)}</title>
+  <updated>${isoDate(updated)}</updated>
+  <author><name>${FEED_TITLE}</name></author>
+  <link rel="self" href="${escapeHtml(selfUrl)}"/>
+  <link rel="alternate" href="${escapeHtml(pageUrl)}"/>${items.join('')}
+</feed>
+`;
+}
+
+function renderRss(entries: FeedEntry[], title: string, subject: string, selfUrl: string, pageUrl: string, updated: number): string {
+  const items = entries.map(entry => `
+    <item>
+      <guid isPermaLink="false">${escapeHtml(entry.id)}</guid>
+      <title>${escapeHtml(entry.title)}</title>
+      <link>${escapeHtml(pageUrl)}</link>
+      <pubDate>${new Date(entry.published).toUTCString()}</pubDate>
+      <category>${entry.category}</category>
+      <description>${escapeHtml(entry.summary)}</description>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeHtml(title)}</title>
+    <link>${escapeHtml(pageUrl)}</link>
+    <description>Status changes and incidents of ${escapeHtml(subject)}</description>
+    <lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>
+    <atom:link rel="self" type="application/rss+xml" href="${escapeHtml(selfUrl)}"/>${items.join('')}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Handles `/feed.atom` and `/feed.rss`: the latest incidents and status changes of every
+ * monitor, or of one with `?site=`, newest first. Incidents are updated in place when they
+ * resolve; status changes come from the history and so only reach back as far as it does.
+ */
+export async function handleFeed(env: Env, url: URL, format: FeedFormat): Promise<Response> {
+  const now = Date.now();
+  const siteName = url.searchParams.get('site');
+  const monitors = await loadMonitors(env);
+  const sites = siteName ? monitors.filter(monitor => monitor.name === siteName) : monitors;
+
+  if (siteName && sites.length === 0) {
+    return errorResponse(`Monitor '${siteName}' not found`, 404);
+  }
+
+  const entries: FeedEntry[] = [];
+  for (const site of sites) {
+    const history = await readHistory(env, site.name, { limit: HISTORY_LIMIT }, now);
+    entries.push(...transitionEntries(site.name, history.reverse()));
+  }
+  // Only the most recent incidents can make it into the feed, so older ones are never read
+  for (const incident of await queryIncidents(env, { site: siteName, limit: MAX_ENTRIES })) {
+    if (sites.some(site => site.name === incident.site)) {
+      entries.push(incidentEntry(incident, now));
+    }
+  }
+
+  const latest = entries.sort((a, b) => b.updated - a.updated || a.id.localeCompare(b.id)).slice(0, MAX_ENTRIES);
+  const updated = latest[0]?.updated ?? now;
+  const title = siteName ? `${FEED_TITLE}: ${siteName}` : FEED_TITLE;
+  const feedId = siteName ? `urn:teyvat-uptime:feed:${siteName}` : 'urn:teyvat-uptime:feed';
+  const pageUrl = `${url.origin}/`;
+
+  const body = format === 'atom' ? renderAtom(latest, feedId, title, url.href, pageUrl, updated) : renderRss(latest, title, siteName ?? 'all monitors', url.href, pageUrl, updated);
+  return new Response(body, {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Cache-Control': 'public, max-age=60',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
@@ -0,0 +1,264 @@
+import type { Env, UptimeData } from './types';
+import { errorResponse, jsonResponse, parseTimeParam } from './http';
+
+export const HISTORY_RETENTION_DAYS = 7;
+export const HISTORY_MIGRATION_KEY = 'history_migrated';
+
+const DAY = 24 * 60 * 60 * 1000;
+// A segment is written until its day ends, so it has to outlive the retention by a day
+const SEGMENT_TTL = (HISTORY_RETENTION_DAYS + 1) * 24 * 60 * 60;
+const LEGACY_KEY_PATTERN = /^history_[a-z0-9][a-z0-9-]*_\d+$/;
+const MIGRATION_BATCH = 200;
+const STATUSES: UptimeData['status'][] = ['up', 'degraded', 'down', 'maintenance'];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export interface HistoryQuery {
+  limit: number;
+  from?: number | null;
+  to?: number | null;
+  status?: UptimeData['status'] | null;
+}
+
+// One JSON array per site and UTC day, so reading history takes one KV read per day instead
+// of a `list` plus a read per entry as with the older `history_<site>_<timestamp>` keys
+const segmentKey = (site: string, dayStart: number) => `history_day_${site}_${dayStart}`;
+
+async function readSegment(env: Env, key: string): Promise<UptimeData[]> {
+  const stored = await env.UPTIME_KV.get(key);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const entries = JSON.parse(stored);
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.warn(`Invalid JSON in history segment ${key}:`, error);
+    return [];
+  }
+}
+
+async function writeSegment(env: Env, key: string, entries: UptimeData[]): Promise<void> {
+  await env.UPTIME_KV.put(key, JSON.stringify(entries), { expirationTtl: SEGMENT_TTL });
+}
+
+/**
+ * Appends a history entry to the segment of its day.
+ */
+export async function appendHistory(env: Env, site: string, data: UptimeData): Promise<void> {
+  const key = segmentKey(site, Math.floor(data.timestamp / DAY) * DAY);
+  const entries = await readSegment(env, key);
+  entries.push(data);
+  await writeSegment(env, key, entries);
+}
+
+async function readLegacyHistory(env: Env, site: string): Promise<UptimeData[]> {
+  const list = await env.UPTIME_KV.list({ prefix: `history_${site}_` });
+  const history: UptimeData[] = [];
+
+  for (const key of list.keys) {
+    if (!LEGACY_KEY_PATTERN.test(key.name)) {
+      continue;
+    }
+    const data = await env.UPTIME_KV.get(key.name);
+    if (data) {
+      try {
+        history.push(JSON.parse(data));
+      } catch (error) {
+        console.warn(`Invalid JSON data for key ${key.name}:`, error);
+      }
+    }
+  }
+
+  return history;
+}
+
+/**
+ * Returns up to `limit` of the site's most recent history entries matching the query, newest
+ * first. Reads one segment per day going back from `to` and stops as soon as enough entries
+ * are collected, so at most HISTORY_RETENTION_DAYS + 1 segments are read.
+ */
+export async function readHistory(env: Env, site: string, query: HistoryQuery, now = Date.now()): Promise<UptimeData[]> {
+  const matches = (entry: UptimeData) =>
+    (query.from == null || entry.timestamp >= query.from) &&
+    (query.to == null || entry.timestamp <= query.to) &&
+    (!query.status || entry.status === query.status);
+
+  const history: UptimeData[] = [];
+  const today = Math.floor(now / DAY) * DAY;
+  const first = Math.max(today - HISTORY_RETENTION_DAYS * DAY, Math.floor((query.from ?? 0) / DAY) * DAY);
+  const last = Math.min(today, Math.floor((query.to ?? now) / DAY) * DAY);
+
+  for (let day = last; day >= first && history.length < query.limit; day -= DAY) {
+    history.push(...(await readSegment(env, segmentKey(site, day))).filter(matches).reverse());
+  }
+
+  if (!(await env.UPTIME_KV.get(HISTORY_MIGRATION_KEY))) {
+    const seen = new Set(history.map(entry => entry.timestamp));
+    history.push(...(await readLegacyHistory(env, site)).filter(entry => matches(entry) && !seen.has(entry.timestamp)));
+  }
+
+  history.sort((a, b) => b.timestamp - a.timestamp);
+  return history.slice(0, query.limit);
+}
+
+/**
+ * Yields the site's history entries between `from` and `to` oldest first, one day segment at
+ * a time, so a caller can stream every entry without holding them all in memory.
+ */
+export async function* historySegments(env: Env, site: string, from: number | null, to: number | null, now = Date.now()): AsyncGenerator<UptimeData[]> {
+  const inRange = (entry: UptimeData) => (from === null || entry.timestamp >= from) && (to === null || entry.timestamp <= to);
+  const today = Math.floor(now / DAY) * DAY;
+  const first = Math.max(today - HISTORY_RETENTION_DAYS * DAY, Math.floor((from ?? 0) / DAY) * DAY);
+  const last = Math.min(today, Math.floor((to ?? now) / DAY) * DAY);
+
+  // Legacy keys predate the segments, so they come first
+  const legacy = new Set<number>();
+  if (!(await env.UPTIME_KV.get(HISTORY_MIGRATION_KEY))) {
+    const entries = (await readLegacyHistory(env, site)).filter(inRange).sort((a, b) => a.timestamp - b.timestamp);
+    entries.forEach(entry => legacy.add(entry.timestamp));
+    if (entries.length > 0) {
+      yield entries;
+    }
+  }
+
+  for (let day = first; day <= last; day += DAY) {
+    const entries = (await readSegment(env, segmentKey(site, day))).filter(entry => inRange(entry) && !legacy.has(entry.timestamp));
+    if (entries.length > 0) {
+      yield entries;
+    }
+  }
+}
+
+/**
+ * Returns the site's oldest history entry that is still kept, if any.
+ */
+export async function oldestHistoryEntry(env: Env, site: string, now = Date.now()): Promise<UptimeData | undefined> {
+  for await (const entries of historySegments(env, site, null, null, now)) {
+    return entries[0];
+  }
+  return undefined;
+}
+
+/**
+ * Moves per-entry `history_<site>_<timestamp>` keys into day segments, a batch per call so a
+ * single cron run stays within its KV operation limits. Marks the migration done once no
+ * legacy keys are left; keys of deleted monitors are left to expire on their own.
+ */
+export async function migrateLegacyHistory(env: Env, sites: string[]): Promise<void> {
+  if (await env.UPTIME_KV.get(HISTORY_MIGRATION_KEY)) {
+    return;
+  }
+
+  let budget = MIGRATION_BATCH;
+  for (const site of sites) {
+    // The prefix of a site named `day` also matches every segment, so page past those
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const list = await env.UPTIME_KV.list({ prefix: `history_${site}_`, limit: budget, cursor });
+      keys.push(...list.keys.map(key => key.name).filter(name => LEGACY_KEY_PATTERN.test(name)));
+      cursor = list.list_complete ? undefined : list.cursor;
+    } while (cursor && keys.length === 0);
+    if (keys.length === 0) {
+      continue;
+    }
+
+    const days = new Map<number, UptimeData[]>();
+    for (const key of keys) {
+      const stored = await env.UPTIME_KV.get(key);
+      try {
+        const data: UptimeData = JSON.parse(stored ?? '');
+        const dayStart = Math.floor(data.timestamp / DAY) * DAY;
+        days.set(dayStart, [...(days.get(dayStart) ?? []), data]);
+      } catch (error) {
+        console.warn(`Dropping unreadable legacy history key ${key}:`, error);
+      }
+    }
+
+    for (const [dayStart, entries] of days) {
+      const key = segmentKey(site, dayStart);
+      const existing = await readSegment(env, key);
+      const seen = new Set(existing.map(entry => entry.timestamp));
+      const merged = [...existing, ...entries.filter(entry => !seen.has(entry.timestamp))];
+      await writeSegment(env, key, merged.sort((a, b) => a.timestamp - b.timestamp));
+    }
+
+    for (const key of keys) {
+      await env.UPTIME_KV.delete(key);
+    }
+
+    budget -= keys.length;
+    if (budget <= 0) {
+      return;
+    }
+  }
+
+  // Only reached when no site had legacy keys left in this pass
+  if (budget === MIGRATION_BATCH) {
+    await env.UPTIME_KV.put(HISTORY_MIGRATION_KEY, String(Date.now()));
+  }
+}
+
+// Cursors point just past the last returned entry; they are opaque to clients
+const encodeCursor = (before: number) => btoa(JSON.stringify({ before })).replace(/=+$/, '');
+
+function decodeCursor(cursor: string): number | undefined {
+  try {
+    const { before } = JSON.parse(atob(cursor));
+    return Number.isInteger(before) ? before : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Handles `/api/history`. Without `v=2` the response is the plain array of entries that
+ * existing consumers expect; with it the entries come in an envelope with `nextCursor`,
+ * which is passed back as `cursor` together with the same filters to get the next page.
+ */
+export async function getHistory(env: Env, params: URLSearchParams): Promise<Response> {
+  const paginated = params.get('v') === '2';
+  const site = params.get('site');
+  if (!site) {
+    return paginated ? errorResponse('site parameter required', 400) : new Response('Site parameter required', { status: 400 });
+  }
+
+  const status = params.get('status');
+  if (status !== null && !STATUSES.includes(status as UptimeData['status'])) {
+    return errorResponse(`status must be one of ${STATUSES.join(', ')}`, 400);
+  }
+
+  const from = parseTimeParam(params.get('from'));
+  const to = parseTimeParam(params.get('to'));
+  if (from === undefined || to === undefined) {
+    return errorResponse('from and to must be epoch milliseconds or ISO 8601 dates', 400);
+  }
+  if (from !== null && to !== null && from > to) {
+    return errorResponse('from must not be after to', 400);
+  }
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return errorResponse(`limit must be an integer between 1 and ${MAX_LIMIT}`, 400);
+  }
+
+  const cursor = params.get('cursor');
+  const before = cursor === null ? undefined : decodeCursor(cursor);
+  if (cursor !== null && before === undefined) {
+    return errorResponse('cursor is invalid', 400);
+  }
+
+  // One extra entry tells whether there is another page
+  const query: HistoryQuery = { limit: limit + 1, from, to: before === undefined ? to : Math.min(to ?? Infinity, before - 1), status: status as HistoryQuery['status'] };
+  const history = await readHistory(env, site, query);
+  const entries = history.slice(0, limit);
+
+  if (!paginated) {
+    return jsonResponse(entries);
+  }
+
+  const nextCursor = history.length > limit ? encodeCursor(entries[entries.length - 1].timestamp) : null;
+  return jsonResponse({ site, entries, nextCursor });
+}
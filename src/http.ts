@@ -0,0 +1,55 @@
+export const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*'
+};
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...CORS_HEADERS,
+      ...headers
+    }
+  });
+}
+
+export function errorResponse(message: string, status: number, details?: string[]): Response {
+  return jsonResponse(details ? { error: message, details } : { error: message }, status);
+}
+
+/**
+ * Answers a CORS preflight. Browsers send one before any request with an `Authorization`
+ * header or a JSON body, without credentials, so it has to be answered before authorization.
+ */
+export function preflightResponse(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      ...CORS_HEADERS,
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type, Last-Event-ID',
+      'Access-Control-Max-Age': '86400'
+    }
+  });
+}
+
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a time query parameter given either as epoch milliseconds or an ISO 8601 date.
+ * Returns `null` when the parameter is absent and `undefined` when it is malformed.
+ */
+export function parseTimeParam(value: string | null): number | null | undefined {
+  if (value === null || value === '') {
+    return null;
+  }
+
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : undefined;
+}
@@ -0,0 +1,225 @@
+import type { Env, SiteCheck, UptimeData } from './types';
+import { errorResponse, jsonResponse, parseTimeParam } from './http';
+import { listAllKeys, readJson } from './storage';
+
+export interface Incident {
+  id: string;
+  site: string;
+  status: 'open' | 'resolved';
+  /** Outages are `down`; slow but working periods are `degraded`. */
+  severity: 'down' | 'degraded';
+  startedAt: number;
+  resolvedAt?: number;
+  durationMs?: number;
+  /** The first failing check of the outage. */
+  cause: {
+    error?: string;
+    statusCode?: number;
+    responseTime?: number;
+    /** Root-cause monitor when the site was down because of a dependency. */
+    upstream?: string;
+  };
+  /** Number of failing checks recorded while the incident was open. */
+  checks: number;
+  lastCheckedAt: number;
+}
+
+/** Stored as the incident key's metadata, so queries can skip incidents without reading them. */
+type IncidentMetadata = Pick<Incident, 'status' | 'severity' | 'startedAt' | 'resolvedAt'>;
+
+// Incidents outlive the 7-day history so outages can still be reported on months later
+export const INCIDENT_TTL = 400 * 24 * 60 * 60;
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+const incidentKey = (site: string, startedAt: number) => `incident_${site}_${startedAt}`;
+const openIncidentKey = (site: string) => `open_incident_${site}`;
+
+async function saveIncident(env: Env, incident: Incident): Promise<void> {
+  const metadata: IncidentMetadata = { status: incident.status, severity: incident.severity, startedAt: incident.startedAt };
+  if (incident.resolvedAt !== undefined) {
+    metadata.resolvedAt = incident.resolvedAt;
+  }
+  await env.UPTIME_KV.put(incidentKey(incident.site, incident.startedAt), JSON.stringify(incident), {
+    expirationTtl: INCIDENT_TTL,
+    metadata
+  });
+}
+
+async function openIncident(site: SiteCheck, data: UptimeData, env: Env): Promise<void> {
+  const incident: Incident = {
+    id: `${site.name}-${data.timestamp}`,
+    site: site.name,
+    status: 'open',
+    severity: data.status === 'degraded' ? 'degraded' : 'down',
+    startedAt: data.timestamp,
+    cause: {},
+    checks: 1,
+    lastCheckedAt: data.timestamp
+  };
+  if (data.error) {
+    incident.cause.error = data.error;
+  }
+  if (data.statusCode !== undefined) {
+    incident.cause.statusCode = data.statusCode;
+  }
+  if (data.status === 'degraded') {
+    incident.cause.responseTime = data.responseTime;
+  }
+  if (data.upstream) {
+    incident.cause.upstream = data.upstream;
+  }
+
+  await saveIncident(env, incident);
+  await env.UPTIME_KV.put(openIncidentKey(site.name), incidentKey(site.name, incident.startedAt));
+}
+
+async function resolveIncident(env: Env, incident: Incident, timestamp: number): Promise<void> {
+  incident.status = 'resolved';
+  incident.resolvedAt = timestamp;
+  incident.durationMs = timestamp - incident.startedAt;
+  await saveIncident(env, incident);
+}
+
+/**
+ * Opens, extends or resolves the site's incident for a confirmed check result.
+ * Up checks without a transition cost nothing; down and degraded checks update the open
+ * incident, and moving between the two resolves it and opens one of the new severity.
+ * Entering maintenance resolves the open incident so the window is not counted as downtime.
+ */
+export async function trackIncident(site: SiteCheck, previous: UptimeData | undefined, data: UptimeData, env: Env): Promise<void> {
+  try {
+    const severity = data.status === 'down' || data.status === 'degraded' ? data.status : null;
+    if (!severity && !previous) {
+      return;
+    }
+
+    const openKey = await env.UPTIME_KV.get(openIncidentKey(site.name));
+    const incident = openKey ? await readJson<Incident>(env, openKey) : null;
+
+    if (incident && severity === (incident.severity ?? 'down')) {
+      incident.checks++;
+      incident.lastCheckedAt = data.timestamp;
+      await saveIncident(env, incident);
+      return;
+    }
+
+    if (incident) {
+      await resolveIncident(env, incident, data.timestamp);
+    }
+
+    if (severity) {
+      await openIncident(site, data, env);
+    } else if (openKey) {
+      await env.UPTIME_KV.delete(openIncidentKey(site.name));
+    }
+  } catch (error) {
+    console.error(`Failed to track incident for ${site.name}:`, error);
+  }
+}
+
+/**
+ * Resolves the site's open incident, if any, when the monitor is paused or deleted: no
+ * further check would resolve it, so it would otherwise stay open and count as downtime.
+ */
+export async function closeOpenIncident(env: Env, site: string, timestamp: number): Promise<void> {
+  try {
+    const openKey = await env.UPTIME_KV.get(openIncidentKey(site));
+    if (!openKey) {
+      return;
+    }
+
+    const incident = await readJson<Incident>(env, openKey);
+    if (incident) {
+      await resolveIncident(env, incident, timestamp);
+    }
+    await env.UPTIME_KV.delete(openIncidentKey(site));
+  } catch (error) {
+    console.error(`Failed to close the open incident for ${site}:`, error);
+  }
+}
+
+/**
+ * One-line, human-readable cause of an incident, as shown on the status page and in the feeds.
+ */
+export function describeCause(incident: Incident): string {
+  if (incident.severity === 'degraded') {
+    return `Slow responses (${incident.cause.responseTime} ms)`;
+  }
+  if (incident.cause.upstream) {
+    return `Upstream ${incident.cause.upstream} is down`;
+  }
+  return incident.cause.error ?? (incident.cause.statusCode !== undefined ? `HTTP ${incident.cause.statusCode}` : 'Unknown cause');
+}
+
+export interface IncidentQuery {
+  site?: string | null;
+  status?: Incident['status'] | null;
+  severity?: Incident['severity'] | null;
+  from?: number | null;
+  to?: number | null;
+  /** Stop after this many matching incidents. */
+  limit?: number;
+}
+
+const matchesQuery = (incident: Partial<IncidentMetadata>, query: IncidentQuery) =>
+  (!query.status || incident.status === undefined || incident.status === query.status) &&
+  (!query.severity || incident.severity === undefined || incident.severity === query.severity) &&
+  (query.to == null || incident.startedAt === undefined || incident.startedAt <= query.to) &&
+  (query.from == null || (incident.resolvedAt ?? Infinity) >= query.from);
+
+/**
+ * Returns incidents overlapping the `from`/`to` window, newest first. Keys are filtered on
+ * their metadata before anything is read, so only matching incidents cost a KV read.
+ * Incidents stored before they had metadata are filtered on the start time in their key.
+ */
+export async function queryIncidents(env: Env, query: IncidentQuery = {}): Promise<Incident[]> {
+  const keys = (await listAllKeys(env, query.site ? `incident_${query.site}_` : 'incident_'))
+    .map(key => {
+      const metadata = (key.metadata as IncidentMetadata | undefined) ?? { startedAt: Number(key.name.slice(key.name.lastIndexOf('_') + 1)) };
+      return { name: key.name, metadata };
+    })
+    .filter(key => matchesQuery(key.metadata, query))
+    .sort((a, b) => b.metadata.startedAt - a.metadata.startedAt);
+  const incidents: Incident[] = [];
+
+  for (const key of keys) {
+    if (query.limit !== undefined && incidents.length >= query.limit) {
+      break;
+    }
+    const incident = await readJson<Incident>(env, key.name);
+    if (incident && matchesQuery({ ...incident, severity: incident.severity ?? 'down' }, query)) {
+      incidents.push(incident);
+    }
+  }
+
+  return incidents.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getIncidents(env: Env, params: URLSearchParams): Promise<Response> {
+  const status = params.get('status');
+  if (status !== null && status !== 'open' && status !== 'resolved') {
+    return errorResponse("status must be 'open' or 'resolved'", 400);
+  }
+
+  const severity = params.get('severity');
+  if (severity !== null && severity !== 'down' && severity !== 'degraded') {
+    return errorResponse("severity must be 'down' or 'degraded'", 400);
+  }
+
+  const from = parseTimeParam(params.get('from'));
+  const to = parseTimeParam(params.get('to'));
+  if (from === undefined || to === undefined) {
+    return errorResponse('from and to must be epoch milliseconds or ISO 8601 dates', 400);
+  }
+  if (from !== null && to !== null && from > to) {
+    return errorResponse('from must not be after to', 400);
+  }
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return errorResponse(`limit must be an integer between 1 and ${MAX_LIMIT}`, 400);
+  }
+
+  return jsonResponse(await queryIncidents(env, { site: params.get('site'), status, severity, from, to, limit }));
+}
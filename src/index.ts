@@ -1,127 +1,211 @@
-export interface Env {
-  UPTIME_KV: KVNamespace;
-}
+import type { CheckStatus, Env, HttpCheck, SiteCheck, UptimeData } from './types';
+import { loadAggregates, saveAggregates } from './aggregates';
+import { handleAlertChannels, notifyTransition } from './alerts';
+import { authorize, handleApiKeys } from './auth';
+import { evaluateAssertions } from './assertions';
+import { handleBadge } from './badges';
+import { applyConfirmation, runWithRetries } from './confirmation';
+import { dependencyLevels, dependencyReport, findUpstream } from './dependencies';
+import { probeDns } from './dns';
+import { handleExport } from './export';
+import { handleFeed } from './feed';
+import { preflightResponse } from './http';
+import { appendHistory, getHistory, migrateLegacyHistory } from './history';
+import { getIncidents, trackIncident } from './incidents';
+import { getLatency, recordLatency } from './latency';
+import { activeMaintenance, handleMaintenance, loadMaintenanceWindows, maintenanceSchedule, type MaintenanceWindow } from './maintenance';
+import { handleMonitors, loadMonitors } from './monitors';
+import { getMetrics, recordCheckCounts } from './metrics';
+import { renderStatusPage } from './page';
+import { checkRedirectPolicy, fetchWithRedirects, isExpectedStatus } from './probe';
+import { handlePush, probePush } from './push';
+import { getSchedule, loadSchedule, planTick, recordTick } from './scheduler';
+import { handleStream, recordStreamEvents } from './stream';
+import { probeTcp } from './tcp';
+import { probeTransaction } from './transaction';
+import { getUptime, recordFirstCheck } from './uptime';
 
-export interface SiteCheck {
-  name: string;
-  url: string;
-  timeout: number;
-}
+export type { CheckStatus, DnsCheck, Env, HttpCheck, PushCheck, SiteCheck, TcpCheck, TransactionCheck, UptimeData } from './types';
+export type { AlertChannel, AlertPayload } from './alerts';
+export type { ApiKey, ApiScope } from './auth';
+export type { AssertionFailure, ContentAssertion } from './assertions';
+export type { ConfirmationPolicy } from './confirmation';
+export type { DependencyReport } from './dependencies';
+export type { DnsRecordType } from './dns';
+export type { ExportFormat } from './export';
+export type { FeedEntry, FeedFormat } from './feed';
+export type { Extraction, StepResult, TransactionStep } from './transaction';
+export type { Incident } from './incidents';
+export type { LatencyBucket, LatencyResolution } from './latency';
+export type { MaintenancePeriod, MaintenanceRecurrence, MaintenanceWindow } from './maintenance';
+export type { DegradedPolicy, ExpectedStatus, RedirectMode } from './probe';
+export type { Heartbeat } from './push';
+export type { ScheduleState, TickSummary } from './scheduler';
+export type { StreamEvent } from './stream';
+export type { UptimeReport } from './uptime';
+export { MONITORED_SITES, loadMonitors, monitorTarget, saveMonitors, validateMonitor } from './monitors';
+export { getHistory } from './history';
+
+/**
+ * Writes the result to KV and returns the previous history entry when the status changed.
+ */
+async function storeResult(site: SiteCheck, data: UptimeData, env: Env): Promise<UptimeData | undefined> {
+  // Always update the current status
+  await env.UPTIME_KV.put(`current_${site.name}`, JSON.stringify(data));
+  
+  // Only store history on status changes or every 2 hours
+  const lastHistoryKey = `last_history_${site.name}`;
+  const lastHistory = await env.UPTIME_KV.get(lastHistoryKey);
+  
+  let shouldStore = false;
+  let previous: UptimeData | undefined;
+  
+  if (!lastHistory) {
+    shouldStore = true; // First time
+  } else {
+    try {
+      const lastData: UptimeData = JSON.parse(lastHistory);
+      const timeDiff = data.timestamp - lastData.timestamp;
+      const statusChanged = lastData.status !== data.status || lastData.upstream !== data.upstream;
+      const twoHoursPassed = timeDiff > 2 * 60 * 60 * 1000; // 2 hours
+      
+      shouldStore = statusChanged || twoHoursPassed;
+      previous = statusChanged ? lastData : undefined;
+    } catch (error) {
+      // Invalid JSON in lastHistory, treat as first time
+      console.warn(`Invalid JSON in last_history for ${site.name}:`, error);
+      shouldStore = true;
+    }
+  }
 
-export interface UptimeData {
-  status: 'up' | 'down';
-  responseTime: number;
-  statusCode?: number;
-  error?: string;
-  timestamp: number;
+  if (shouldStore) {
+    await appendHistory(env, site.name, data);
+    await env.UPTIME_KV.put(lastHistoryKey, JSON.stringify(data));
+  }
+  
+  return previous;
 }
 
-export async function checkSite(site: SiteCheck, env: Env): Promise<void> {
+async function probeHttp(site: HttpCheck): Promise<UptimeData> {
   const start = Date.now();
   const timestamp = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), site.timeout);
+  let data: UptimeData;
   
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), site.timeout);
-    
-    const response = await fetch(site.url, {
+    const probe = await fetchWithRedirects(site, {
       signal: controller.signal,
       headers: { 
         'User-Agent': 'Mozilla/5.0 (compatible; TeyvatArchive-Monitor/1.0)',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
       }
     });
+    const { response } = probe;
     
-    clearTimeout(timeoutId);
     const responseTime = Date.now() - start;
-    const status: 'up' | 'down' = response.ok ? 'up' : 'down';
+    const statusOk = isExpectedStatus(response, site.expectedStatus);
+    const redirectError = checkRedirectPolicy(site, probe);
     
-    const data: UptimeData = {
+    // Reading the body still counts against the timeout, so the abort stays armed until then
+    const failedAssertion = statusOk && !redirectError && site.assertions?.length
+      ? await evaluateAssertions(site.assertions, response)
+      : undefined;
+    
+    const status = statusOk && !redirectError && !failedAssertion ? 'up' : 'down';
+    
+    data = {
       status,
       responseTime,
       statusCode: response.status,
       timestamp
     };
     
-    // Always update current status (4 writes per check cycle)
-    await env.UPTIME_KV.put(`current_${site.name}`, JSON.stringify(data));
-    
-    // Only store history on status changes or every 2 hours
-    const lastHistoryKey = `last_history_${site.name}`;
-    const lastHistory = await env.UPTIME_KV.get(lastHistoryKey);
-    
-    let shouldStore = false;
-    
-    if (!lastHistory) {
-      shouldStore = true; // First time
-    } else {
-      try {
-        const lastData: UptimeData = JSON.parse(lastHistory);
-        const timeDiff = timestamp - lastData.timestamp;
-        const statusChanged = lastData.status !== status;        const twoHoursPassed = timeDiff > 2 * 60 * 60 * 1000; // 2 hours
-        
-        shouldStore = statusChanged || twoHoursPassed;
-      } catch (error) {
-        // Invalid JSON in lastHistory, treat as first time
-        console.warn(`Invalid JSON in last_history for ${site.name}:`, error);
-        shouldStore = true;
-      }
-    }
-
-    if (shouldStore) {
-      await env.UPTIME_KV.put(
-        `history_${site.name}_${timestamp}`, 
-        JSON.stringify(data),
-        { expirationTtl: 7 * 24 * 60 * 60 } // 7 days instead of 30
-      );
-      await env.UPTIME_KV.put(lastHistoryKey, JSON.stringify(data));
+    if (redirectError) {
+      data.error = redirectError;
+    } else if (failedAssertion) {
+      data.error = `Assertion failed: ${failedAssertion.message}`;
+      data.failedAssertion = failedAssertion;
     }
     
+    if (probe.redirects.length > 0) {
+      data.finalUrl = probe.finalUrl;
+      data.redirects = probe.redirects;
+    }
   } catch (error: any) {
-    const data: UptimeData = {
+    data = {
       status: 'down',
       error: error.message,
       responseTime: Date.now() - start,
       timestamp
     };
-    
-    await env.UPTIME_KV.put(`current_${site.name}`, JSON.stringify(data));
-    
-    // Same logic for error cases
-    const lastHistoryKey = `last_history_${site.name}`;
-    const lastHistory = await env.UPTIME_KV.get(lastHistoryKey);
-    
-    let shouldStore = false;
-    
-    if (!lastHistory) {
-      shouldStore = true;
-    } else {
-      try {
-        const lastData: UptimeData = JSON.parse(lastHistory);
-        const timeDiff = timestamp - lastData.timestamp;
-        const statusChanged = lastData.status !== 'down';        const twoHoursPassed = timeDiff > 2 * 60 * 60 * 1000;
-        
-        shouldStore = statusChanged || twoHoursPassed;
-      } catch (error) {
-        // Invalid JSON in lastHistory, treat as first time
-        console.warn(`Invalid JSON in last_history for ${site.name}:`, error);
-        shouldStore = true;
-      }
-    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+  
+  return data;
+}
 
-    if (shouldStore) {
-      await env.UPTIME_KV.put(
-        `history_${site.name}_${timestamp}`, 
-        JSON.stringify(data),
-        { expirationTtl: 7 * 24 * 60 * 60 }
-      );
-      await env.UPTIME_KV.put(lastHistoryKey, JSON.stringify(data));
+async function probeSite(site: SiteCheck, env: Env): Promise<UptimeData> {
+  let data: UptimeData;
+  switch (site.type) {
+    case 'tcp':
+      data = await probeTcp(site);
+      break;
+    case 'dns':
+      data = await probeDns(site);
+      break;
+    case 'transaction':
+      data = await probeTransaction(site);
+      break;
+    case 'push':
+      data = await probePush(site, env);
+      break;
+    default:
+      data = await probeHttp(site);
+  }
+  
+  if (data.status === 'up' && site.degraded && data.responseTime >= site.degraded.threshold) {
+    data.status = 'degraded';
+  }
+  return data;
+}
+
+/**
+ * Checks a site and records the result. Pass `maintenance` when checking several sites
+ * at once so the windows are only read from KV once, and `ctx` to send alerts in the background.
+ */
+export async function checkSite(site: SiteCheck, env: Env, maintenance?: MaintenanceWindow[], ctx?: ExecutionContext): Promise<UptimeData> {
+  const window = activeMaintenance(maintenance ?? await loadMaintenanceWindows(env), site.name, Date.now());
+  let data: UptimeData;
+  
+  if (window) {
+    // Still probe so the result is visible, but never retry, confirm or count it as an outage
+    const observed = await probeSite(site, env);
+    data = { ...observed, status: 'maintenance', observedStatus: observed.status as CheckStatus, maintenance: window.id };
+  } else {
+    const observed = await runWithRetries(site, () => probeSite(site, env));
+    data = await applyConfirmation(site, observed, env);
+    
+    const upstream = data.status === 'down' ? await findUpstream(site, env) : undefined;
+    if (upstream) {
+      data.upstream = upstream;
     }
   }
+  
+  const previous = await storeResult(site, data, env);
+  await recordFirstCheck(env, site, data);
+  await trackIncident(site, previous, data, env);
+  if (previous) {
+    await notifyTransition(site, previous, data, env, ctx);
+  }
+  
+  return data;
 }
 
 export async function getStatus(env: Env): Promise<Response> {
-  const sites = ['main', 'dashboard', 'api', 'cdn'];
+  const monitors = await loadMonitors(env);
+  const sites = monitors.map(monitor => monitor.name);
   const statuses: Record<string, UptimeData | null> = {};
   
   for (const site of sites) {
@@ -134,36 +218,17 @@ export async function getStatus(env: Env): Promise<Response> {
     }
   }
   
-  return new Response(JSON.stringify(statuses), {
-    headers: { 
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*'
-    }
-  });
-}
-
-export async function getHistory(env: Env, siteName: string | null): Promise<Response> {
-  if (!siteName) {
-    return new Response('Site parameter required', { status: 400 });
+  // Underscores cannot appear in monitor names, so these keys never collide with a site
+  const schedule = maintenanceSchedule(await loadMaintenanceWindows(env), Date.now());
+  const body: Record<string, unknown> = { ...statuses };
+  if (schedule.active.length > 0 || schedule.upcoming.length > 0) {
+    body._maintenance = schedule;
   }
-  
-  const list = await env.UPTIME_KV.list({ prefix: `history_${siteName}_` });
-  const history: UptimeData[] = [];
-  
-  for (const key of list.keys) {
-    const data = await env.UPTIME_KV.get(key.name);
-    if (data) {
-      try {
-        history.push(JSON.parse(data));
-      } catch (error) {
-        console.warn(`Invalid JSON data for key ${key.name}:`, error);
-      }
-    }
+  if (monitors.some(monitor => monitor.dependsOn?.length)) {
+    body._dependencies = dependencyReport(monitors, statuses);
   }
   
-  history.sort((a, b) => b.timestamp - a.timestamp);
-  
-  return new Response(JSON.stringify(history.slice(0, 100)), {
+  return new Response(JSON.stringify(body), {
     headers: { 
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*'
@@ -171,30 +236,120 @@ export async function getHistory(env: Env, siteName: string | null): Promise<Res
   });
 }
 
-export const MONITORED_SITES: SiteCheck[] = [
-  { name: 'main', url: 'https://teyvatarchive.online/api/health', timeout: 10000 },
-  { name: 'dashboard', url: 'https://dashboard.teyvatarchive.online', timeout: 10000 },
-  { name: 'api', url: 'https://server.teyvatarchive.online', timeout: 10000 },
-  { name: 'cdn', url: 'https://cdn.teyvatarchive.online/images/chapterIcons/UI_ChapterIcon_AkaFes.png', timeout: 10000 }
-];
-
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
     
+    if (request.method === 'OPTIONS') {
+      return preflightResponse();
+    }
+    
+    const { denied, scopes } = await authorize(request, env, url.pathname);
+    if (denied) {
+      return denied;
+    }
+    
+    if (url.pathname === '/') {
+      return await renderStatusPage(env);
+    }
+    
+    if (url.pathname === '/feed.atom' || url.pathname === '/feed.rss') {
+      return await handleFeed(env, url, url.pathname === '/feed.atom' ? 'atom' : 'rss');
+    }
+    
+    if (url.pathname.startsWith('/badge/')) {
+      return await handleBadge(env, url.pathname, url.searchParams);
+    }
+    
+    if (url.pathname === '/metrics') {
+      return await getMetrics(env);
+    }
+    
     if (url.pathname === '/api/status') {
       return await getStatus(env);
     }
     
+    if (url.pathname === '/api/stream') {
+      return await handleStream(request, env, url.searchParams);
+    }
+    
     if (url.pathname === '/api/history') {
-      return await getHistory(env, url.searchParams.get('site'));
+      return await getHistory(env, url.searchParams);
+    }
+    
+    if (url.pathname === '/api/export') {
+      return await handleExport(env, url.searchParams);
+    }
+    
+    if (url.pathname === '/api/incidents') {
+      return await getIncidents(env, url.searchParams);
+    }
+    
+    if (url.pathname === '/api/uptime') {
+      return await getUptime(env, url.searchParams);
+    }
+    
+    if (url.pathname === '/api/latency') {
+      return await getLatency(env, url.searchParams);
+    }
+    
+    if (url.pathname === '/api/schedule') {
+      return await getSchedule(env);
+    }
+    
+    if (url.pathname === '/api/monitors' || url.pathname.startsWith('/api/monitors/')) {
+      return await handleMonitors(request, env, url.pathname, scopes);
+    }
+    
+    if (url.pathname.startsWith('/api/push/')) {
+      return await handlePush(request, env, url.pathname, await loadMonitors(env));
+    }
+    
+    if (url.pathname === '/api/maintenance' || url.pathname.startsWith('/api/maintenance/')) {
+      return await handleMaintenance(request, env, url.pathname);
+    }
+    
+    if (url.pathname === '/api/alerts/channels' || url.pathname.startsWith('/api/alerts/channels/')) {
+      return await handleAlertChannels(request, env, url.pathname);
+    }
+    
+    if (url.pathname === '/api/keys' || url.pathname.startsWith('/api/keys/')) {
+      return await handleApiKeys(request, env, url.pathname);
     }
     
     return new Response('Teyvat Archive Uptime Monitor API', { status: 200 });
   },
 
   async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
-    const checks = MONITORED_SITES.map(site => checkSite(site, env));
-    await Promise.all(checks);
+    // The cron fires every minute; each monitor only runs when its interval says it is due
+    const now = Date.now();
+    const monitors = await loadMonitors(env);
+    const schedule = await loadSchedule(env);
+    const plan = planTick(monitors.filter(site => !site.paused), schedule, now);
+    if (plan.due.length === 0) {
+      return;
+    }
+    if (plan.overdue.length > 0) {
+      console.warn(`Running overdue monitors: ${plan.overdue.join(', ')}`);
+    }
+    await recordTick(env, schedule, monitors, plan, now);
+    
+    // Upstream monitors go first so their dependents can be attributed to them in the same run
+    const maintenance = await loadMaintenanceWindows(env);
+    const results: { site: SiteCheck; data: UptimeData }[] = [];
+    for (const level of dependencyLevels(plan.due)) {
+      const checks = level.map(async site => ({ site, data: await checkSite(site, env, maintenance, ctx) }));
+      results.push(...(await Promise.all(checks)));
+    }
+    
+    const aggregates = await loadAggregates(env);
+    // Push monitors have no response time of their own
+    const latency = results.filter(({ site }) => site.type !== 'push');
+    await recordLatency(env, aggregates, latency.map(({ site, data }) => ({ site: site.name, data })));
+    const named = results.map(({ site, data }) => ({ site: site.name, data }));
+    recordCheckCounts(aggregates, named);
+    await recordStreamEvents(env, aggregates, named);
+    await saveAggregates(env, aggregates);
+    await migrateLegacyHistory(env, monitors.map(site => site.name));
   }
 };
\ No newline at end of file
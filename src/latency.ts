@@ -0,0 +1,176 @@
+import type { Env, UptimeData } from './types';
+import { loadAggregates, type RunAggregates } from './aggregates';
+import { errorResponse, jsonResponse, parseTimeParam } from './http';
+import { listAllKeys, readJson } from './storage';
+
+export type LatencyResolution = 'hour' | 'day';
+
+export interface LatencyStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface LatencyBucket extends LatencyStats {
+  site: string;
+  resolution: LatencyResolution;
+  start: number;
+}
+
+interface DayAccumulator {
+  start: number;
+  samples: number[];
+}
+
+/**
+ * Response times of the hour in progress for every site, kept with the run aggregates;
+ * buckets are only written when the hour rolls over.
+ */
+export interface PendingLatency {
+  hour: number;
+  samples: Record<string, number[]>;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const HOUR_BUCKET_TTL = 30 * 24 * 60 * 60;
+const DAY_BUCKET_TTL = 400 * 24 * 60 * 60;
+const DEFAULT_RANGE: Record<LatencyResolution, number> = { hour: DAY, day: 30 * DAY };
+const MAX_BUCKETS = 1000;
+
+const bucketKey = (resolution: LatencyResolution, site: string, start: number) => `latency_${resolution}_${site}_${start}`;
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function computeLatencyStats(samples: number[]): LatencyStats {
+  const sorted = [...samples].sort((a, b) => a - b);
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99)
+  };
+}
+
+async function flushPending(env: Env, pending: PendingLatency): Promise<void> {
+  const dayStart = Math.floor(pending.hour / DAY) * DAY;
+
+  for (const [site, samples] of Object.entries(pending.samples)) {
+    if (samples.length === 0) {
+      continue;
+    }
+
+    const hourBucket: LatencyBucket = { site, resolution: 'hour', start: pending.hour, ...computeLatencyStats(samples) };
+    await env.UPTIME_KV.put(bucketKey('hour', site, pending.hour), JSON.stringify(hourBucket), { expirationTtl: HOUR_BUCKET_TTL });
+
+    // Day buckets keep their raw samples so percentiles stay exact as hours are merged in
+    const dayKey = bucketKey('day', site, dayStart);
+    const day = (await readJson<DayAccumulator & LatencyBucket>(env, dayKey)) ?? { start: dayStart, samples: [] };
+    const daySamples = [...day.samples, ...samples];
+    const dayBucket = { site, resolution: 'day', start: dayStart, ...computeLatencyStats(daySamples), samples: daySamples };
+    await env.UPTIME_KV.put(dayKey, JSON.stringify(dayBucket), { expirationTtl: DAY_BUCKET_TTL });
+  }
+}
+
+/**
+ * Adds the response times of one cron run to the pending hour, flushing the previous
+ * hour into hourly and daily buckets when a new hour starts. Failed checks and checks
+ * during maintenance are skipped so timeouts and redeploys do not skew the latency figures.
+ * The caller saves `aggregates` once the run is recorded.
+ */
+export async function recordLatency(env: Env, aggregates: RunAggregates, results: { site: string; data: UptimeData }[]): Promise<void> {
+  const samples = results.filter(result => result.data.status === 'up' || result.data.status === 'degraded');
+  if (samples.length === 0) {
+    return;
+  }
+
+  try {
+    const hour = Math.floor(samples[0].data.timestamp / HOUR) * HOUR;
+    if (aggregates.latency && aggregates.latency.hour !== hour) {
+      await flushPending(env, aggregates.latency);
+      aggregates.latency = undefined;
+    }
+    const pending = (aggregates.latency ??= { hour, samples: {} });
+
+    for (const { site, data } of samples) {
+      (pending.samples[site] ??= []).push(data.responseTime);
+    }
+  } catch (error) {
+    console.error('Failed to record latency:', error);
+  }
+}
+
+/**
+ * Returns the buckets for a site between `from` and `to`, including the hour still in progress.
+ */
+export async function queryLatency(env: Env, site: string, resolution: LatencyResolution, from: number, to: number): Promise<LatencyBucket[]> {
+  const size = resolution === 'hour' ? HOUR : DAY;
+  const prefix = `latency_${resolution}_${site}_`;
+  const buckets = new Map<number, LatencyBucket>();
+
+  for (const key of await listAllKeys(env, prefix)) {
+    const start = Number(key.name.slice(prefix.length));
+    if (start + size <= from || start > to) {
+      continue;
+    }
+    const bucket = await readJson<LatencyBucket & Partial<DayAccumulator>>(env, key.name);
+    if (bucket) {
+      buckets.set(start, bucket);
+    }
+  }
+
+  const pending = (await loadAggregates(env)).latency;
+  const pendingSamples = pending?.samples[site] ?? [];
+  if (pending && pendingSamples.length > 0) {
+    const start = Math.floor(pending.hour / size) * size;
+    if (start + size > from && start <= to) {
+      const stored = buckets.get(start) as (LatencyBucket & Partial<DayAccumulator>) | undefined;
+      const samples = resolution === 'day' ? [...(stored?.samples ?? []), ...pendingSamples] : pendingSamples;
+      buckets.set(start, { site, resolution, start, ...computeLatencyStats(samples) });
+    }
+  }
+
+  return [...buckets.values()]
+    .map(({ samples, ...bucket }: LatencyBucket & Partial<DayAccumulator>) => bucket)
+    .sort((a, b) => a.start - b.start);
+}
+
+export async function getLatency(env: Env, params: URLSearchParams): Promise<Response> {
+  const site = params.get('site');
+  if (!site) {
+    return errorResponse('site parameter required', 400);
+  }
+
+  const resolution = (params.get('resolution') ?? 'hour') as LatencyResolution;
+  if (resolution !== 'hour' && resolution !== 'day') {
+    return errorResponse("resolution must be 'hour' or 'day'", 400);
+  }
+
+  const now = Date.now();
+  const from = parseTimeParam(params.get('from'));
+  const to = parseTimeParam(params.get('to'));
+  if (from === undefined || to === undefined) {
+    return errorResponse('from and to must be epoch milliseconds or ISO 8601 dates', 400);
+  }
+
+  const end = to ?? now;
+  const start = from ?? end - DEFAULT_RANGE[resolution];
+  if (start > end) {
+    return errorResponse('from must not be after to', 400);
+  }
+  if ((end - start) / (resolution === 'hour' ? HOUR : DAY) > MAX_BUCKETS) {
+    return errorResponse(`range must not span more than ${MAX_BUCKETS} buckets`, 400);
+  }
+
+  return jsonResponse(await queryLatency(env, site, resolution, start, end));
+}
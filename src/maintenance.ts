@@ -0,0 +1,290 @@
+import type { Env } from './types';
+import { CORS_HEADERS, errorResponse, jsonResponse, parseTimeParam, readJsonBody } from './http';
+
+export type MaintenanceRecurrence = 'daily' | 'weekly';
+
+export interface MaintenanceWindow {
+  id: string;
+  title?: string;
+  /** Monitors covered by the window; every monitor when omitted. */
+  sites?: string[];
+  startsAt: number;
+  endsAt: number;
+  /** Repeats the window every day or week from `startsAt`. */
+  recurrence?: MaintenanceRecurrence;
+  /** Latest start time of a recurring window; repeats forever when omitted. */
+  until?: number;
+}
+
+/** A single occurrence of a maintenance window. */
+export interface MaintenancePeriod {
+  id: string;
+  title?: string;
+  sites?: string[];
+  startsAt: number;
+  endsAt: number;
+}
+
+export const MAINTENANCE_KEY = 'maintenance_windows';
+
+const HOUR = 60 * 60 * 1000;
+const PERIODS: Record<MaintenanceRecurrence, number> = { daily: 24 * HOUR, weekly: 7 * 24 * HOUR };
+const RECURRENCES = Object.keys(PERIODS) as MaintenanceRecurrence[];
+const WINDOW_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const MAX_TITLE_LENGTH = 200;
+
+export async function loadMaintenanceWindows(env: Env): Promise<MaintenanceWindow[]> {
+  const stored = await env.UPTIME_KV.get(MAINTENANCE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    const windows = JSON.parse(stored);
+    return Array.isArray(windows) ? windows : [];
+  } catch (error) {
+    console.warn('Invalid JSON in maintenance windows:', error);
+    return [];
+  }
+}
+
+async function saveMaintenanceWindows(env: Env, windows: MaintenanceWindow[]): Promise<void> {
+  await env.UPTIME_KV.put(MAINTENANCE_KEY, JSON.stringify(windows));
+}
+
+const coversSite = (window: MaintenanceWindow, site: string) => !window.sites || window.sites.includes(site);
+
+function toPeriod(window: MaintenanceWindow, startsAt: number): MaintenancePeriod {
+  const period: MaintenancePeriod = { id: window.id, startsAt, endsAt: startsAt + window.endsAt - window.startsAt };
+  if (window.title !== undefined) {
+    period.title = window.title;
+  }
+  if (window.sites !== undefined) {
+    period.sites = window.sites;
+  }
+  return period;
+}
+
+/**
+ * Returns the occurrences of a window that overlap `from`..`to`, both inclusive.
+ */
+export function occurrences(window: MaintenanceWindow, from: number, to: number): MaintenancePeriod[] {
+  if (!window.recurrence) {
+    return window.startsAt <= to && window.endsAt > from ? [toPeriod(window, window.startsAt)] : [];
+  }
+
+  const period = PERIODS[window.recurrence];
+  const duration = window.endsAt - window.startsAt;
+  const last = Math.min(to, window.until ?? Infinity);
+  const result: MaintenancePeriod[] = [];
+
+  // First occurrence that is still running at `from`
+  const first = Math.max(0, Math.floor((from - duration - window.startsAt) / period) + 1);
+  for (let start = window.startsAt + first * period; start <= last; start += period) {
+    result.push(toPeriod(window, start));
+  }
+  return result;
+}
+
+/**
+ * Returns the maintenance period covering the site at `at`, if any.
+ */
+export function activeMaintenance(windows: MaintenanceWindow[], site: string, at: number): MaintenancePeriod | undefined {
+  for (const window of windows) {
+    if (!coversSite(window, site)) {
+      continue;
+    }
+    const period = occurrences(window, at, at)[0];
+    if (period) {
+      return period;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the site's maintenance time between `from` and `to` as sorted, merged intervals.
+ */
+export function maintenanceIntervals(windows: MaintenanceWindow[], site: string, from: number, to: number): [number, number][] {
+  const intervals = windows
+    .filter(window => coversSite(window, site))
+    .flatMap(window => occurrences(window, from, to))
+    .map(period => [Math.max(period.startsAt, from), Math.min(period.endsAt, to)] as [number, number])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const [start, end] of intervals) {
+    const previous = merged[merged.length - 1];
+    if (previous && start <= previous[1]) {
+      previous[1] = Math.max(previous[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function nextOccurrence(window: MaintenanceWindow, now: number): MaintenancePeriod | undefined {
+  if (!window.recurrence) {
+    return window.endsAt > now ? toPeriod(window, window.startsAt) : undefined;
+  }
+
+  const period = PERIODS[window.recurrence];
+  const duration = window.endsAt - window.startsAt;
+  let start = window.startsAt + Math.max(0, Math.floor((now - window.startsAt) / period)) * period;
+  if (start + duration <= now) {
+    start += period;
+  }
+  return start <= (window.until ?? Infinity) ? toPeriod(window, start) : undefined;
+}
+
+/**
+ * Splits the next occurrence of every window into those in progress and those still to come.
+ */
+export function maintenanceSchedule(windows: MaintenanceWindow[], now: number): { active: MaintenancePeriod[]; upcoming: MaintenancePeriod[] } {
+  const active: MaintenancePeriod[] = [];
+  const upcoming: MaintenancePeriod[] = [];
+
+  for (const window of windows) {
+    const next = nextOccurrence(window, now);
+    if (next) {
+      (next.startsAt <= now ? active : upcoming).push(next);
+    }
+  }
+
+  upcoming.sort((a, b) => a.startsAt - b.startsAt);
+  return { active, upcoming };
+}
+
+export function validateMaintenanceWindow(input: unknown): { window?: MaintenanceWindow; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Maintenance window must be a JSON object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const time = (value: unknown) =>
+    typeof value === 'number' ? (Number.isFinite(value) ? value : undefined) : typeof value === 'string' ? parseTimeParam(value) ?? undefined : undefined;
+
+  if (typeof raw.id !== 'string' || !WINDOW_ID_PATTERN.test(raw.id)) {
+    errors.push('id must be 1-64 lowercase letters, digits or dashes and start with a letter or digit');
+  }
+
+  if (raw.title !== undefined && (typeof raw.title !== 'string' || raw.title.length > MAX_TITLE_LENGTH)) {
+    errors.push(`title must be a string of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  if (raw.sites !== undefined && (!Array.isArray(raw.sites) || raw.sites.length === 0 || !raw.sites.every(site => typeof site === 'string'))) {
+    errors.push('sites must be a non-empty array of monitor names');
+  }
+
+  const startsAt = time(raw.startsAt);
+  const endsAt = time(raw.endsAt);
+  if (startsAt === undefined || endsAt === undefined) {
+    errors.push('startsAt and endsAt must be epoch milliseconds or ISO 8601 dates');
+  } else if (endsAt <= startsAt) {
+    errors.push('endsAt must be after startsAt');
+  }
+
+  const recurrence = raw.recurrence as MaintenanceRecurrence | undefined;
+  if (recurrence !== undefined && !RECURRENCES.includes(recurrence)) {
+    errors.push(`recurrence must be one of ${RECURRENCES.join(', ')}`);
+  } else if (recurrence && startsAt !== undefined && endsAt !== undefined && endsAt - startsAt >= PERIODS[recurrence]) {
+    errors.push('a recurring window must be shorter than its recurrence period');
+  }
+
+  const until = time(raw.until);
+  if (raw.until !== undefined && (!recurrence || until === undefined || (startsAt !== undefined && until < startsAt))) {
+    errors.push('until must be a date after startsAt and is only supported for recurring windows');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const window: MaintenanceWindow = { id: raw.id as string, startsAt: startsAt!, endsAt: endsAt! };
+  if (raw.title !== undefined) {
+    window.title = raw.title as string;
+  }
+  if (raw.sites !== undefined) {
+    window.sites = raw.sites as string[];
+  }
+  if (recurrence) {
+    window.recurrence = recurrence;
+  }
+  if (until !== undefined) {
+    window.until = until;
+  }
+
+  return { window, errors };
+}
+
+/**
+ * Handles `/api/maintenance` and `/api/maintenance/:id`.
+ */
+export async function handleMaintenance(request: Request, env: Env, path: string): Promise<Response> {
+  const segments = path.split('/').filter(Boolean).slice(2);
+  const [id] = segments;
+
+  if (segments.length > 1) {
+    return errorResponse('Not found', 404);
+  }
+
+  const windows = await loadMaintenanceWindows(env);
+
+  if (!id) {
+    if (request.method === 'GET') {
+      return jsonResponse(windows);
+    }
+
+    if (request.method === 'POST') {
+      const { window, errors } = validateMaintenanceWindow(await readJsonBody(request));
+      if (!window) {
+        return errorResponse('Invalid maintenance window', 400, errors);
+      }
+      if (windows.some(w => w.id === window.id)) {
+        return errorResponse(`Maintenance window '${window.id}' already exists`, 409);
+      }
+
+      windows.push(window);
+      await saveMaintenanceWindows(env, windows);
+      return jsonResponse(window, 201);
+    }
+
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const index = windows.findIndex(w => w.id === id);
+  if (index === -1) {
+    return errorResponse(`Maintenance window '${id}' not found`, 404);
+  }
+
+  if (request.method === 'GET') {
+    return jsonResponse(windows[index]);
+  }
+
+  if (request.method === 'PUT') {
+    const body = await readJsonBody(request);
+    const input = body && typeof body === 'object' && !Array.isArray(body) ? { id, ...body } : body;
+    const { window, errors } = validateMaintenanceWindow(input);
+    if (!window) {
+      return errorResponse('Invalid maintenance window', 400, errors);
+    }
+    if (window.id !== id) {
+      return errorResponse('Maintenance window id cannot be changed', 400);
+    }
+
+    windows[index] = window;
+    await saveMaintenanceWindows(env, windows);
+    return jsonResponse(window);
+  }
+
+  if (request.method === 'DELETE') {
+    windows.splice(index, 1);
+    await saveMaintenanceWindows(env, windows);
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  return errorResponse('Method not allowed', 405);
+}
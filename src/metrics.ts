@@ -0,0 +1,124 @@
+import type { Env, UptimeData } from './types';
+import { loadAggregates, type RunAggregates } from './aggregates';
+import { CORS_HEADERS } from './http';
+import { loadMonitors } from './monitors';
+import { readJson } from './storage';
+
+interface SiteCounters {
+  checks: number;
+  failures: number;
+  /** When the counters were first written, reported as `_created` so resets are visible. */
+  created: number;
+}
+
+/**
+ * Check and failure counts per site since the counters were created, kept with the run aggregates.
+ */
+export type CheckCounters = Record<string, SiteCounters>;
+
+const CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Adds the results of one cron run to the check counters. A check counts as a failure when
+ * it is down; checks during maintenance are counted but never as failures.
+ */
+export function recordCheckCounts(aggregates: RunAggregates, results: { site: string; data: UptimeData }[]): void {
+  const counters = (aggregates.counters ??= {});
+  for (const { site, data } of results) {
+    const counts = (counters[site] ??= { checks: 0, failures: 0, created: data.timestamp });
+    counts.checks++;
+    if (data.status === 'down') {
+      counts.failures++;
+    }
+  }
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+interface MetricFamily {
+  name: string;
+  type: 'gauge' | 'counter';
+  help: string;
+  unit?: string;
+  samples: string[];
+}
+
+const family = (name: string, type: MetricFamily['type'], help: string, unit?: string): MetricFamily => ({ name, type, help, unit, samples: [] });
+
+function addSample(metric: MetricFamily, site: string, value: number, suffix = ''): void {
+  metric.samples.push(`${metric.name}${suffix}{site="${escapeLabel(site)}"} ${value}`);
+}
+
+function renderFamily(metric: MetricFamily): string {
+  const lines = [`# TYPE ${metric.name} ${metric.type}`];
+  if (metric.unit) {
+    lines.push(`# UNIT ${metric.name} ${metric.unit}`);
+  }
+  lines.push(`# HELP ${metric.name} ${metric.help}`, ...metric.samples);
+  return lines.join('\n');
+}
+
+/**
+ * Renders every monitor's last check and check counters in the OpenMetrics text format.
+ * Monitors that have not been checked yet are left out.
+ */
+export function renderMetrics(statuses: Record<string, UptimeData | null>, counters: CheckCounters): string {
+  const up = family('teyvat_monitor_up', 'gauge', 'Whether the last check found the monitor up (1) or not (0).');
+  const degraded = family('teyvat_monitor_degraded', 'gauge', 'Whether the last check found the monitor degraded.');
+  const maintenance = family('teyvat_monitor_maintenance', 'gauge', 'Whether the monitor is in a maintenance window.');
+  const responseTime = family('teyvat_monitor_response_time_ms', 'gauge', 'Response time of the last check in milliseconds.');
+  const statusCode = family('teyvat_monitor_status_code', 'gauge', 'HTTP status code of the last check.');
+  const lastCheck = family('teyvat_monitor_last_check_timestamp_seconds', 'gauge', 'Time of the last check.', 'seconds');
+  const checks = family('teyvat_monitor_checks', 'counter', 'Checks run by the scheduler.');
+  const failures = family('teyvat_monitor_failures', 'counter', 'Scheduled checks that found the monitor down.');
+
+  for (const [site, data] of Object.entries(statuses)) {
+    if (!data) {
+      continue;
+    }
+    // A monitor in maintenance reports what the probe saw
+    const observed = data.status === 'maintenance' ? data.observedStatus : data.status;
+    addSample(up, site, observed === 'down' ? 0 : 1);
+    addSample(degraded, site, observed === 'degraded' ? 1 : 0);
+    addSample(maintenance, site, data.status === 'maintenance' ? 1 : 0);
+    addSample(responseTime, site, data.responseTime);
+    if (data.statusCode !== undefined) {
+      addSample(statusCode, site, data.statusCode);
+    }
+    addSample(lastCheck, site, data.timestamp / 1000);
+  }
+
+  for (const [site, counts] of Object.entries(counters)) {
+    addSample(checks, site, counts.checks, '_total');
+    addSample(checks, site, counts.created / 1000, '_created');
+    addSample(failures, site, counts.failures, '_total');
+    addSample(failures, site, counts.created / 1000, '_created');
+  }
+
+  const families = [up, degraded, maintenance, responseTime, statusCode, lastCheck, checks, failures];
+  return `${families.map(renderFamily).join('\n')}\n# EOF\n`;
+}
+
+/**
+ * Handles `/metrics` for Prometheus and other OpenMetrics scrapers.
+ */
+export async function getMetrics(env: Env): Promise<Response> {
+  const monitors = await loadMonitors(env);
+  const statuses: Record<string, UptimeData | null> = {};
+  for (const site of monitors) {
+    statuses[site.name] = await readJson<UptimeData>(env, `current_${site.name}`);
+  }
+
+  // Counters of deleted monitors are dropped rather than reported forever
+  const stored = (await loadAggregates(env)).counters ?? {};
+  const counters: CheckCounters = {};
+  for (const site of monitors) {
+    if (stored[site.name]) {
+      counters[site.name] = stored[site.name];
+    }
+  }
+
+  return new Response(renderMetrics(statuses, counters), {
+    headers: { 'Content-Type': CONTENT_TYPE, ...CORS_HEADERS }
+  });
+}
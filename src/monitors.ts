@@ -0,0 +1,479 @@
+import type { DnsCheck, Env, HttpCheck, PushCheck, SiteCheck, TcpCheck, TransactionCheck } from './types';
+import { validateAssertions } from './assertions';
+import { hasScope, type ApiScope } from './auth';
+import { validateConfirmation } from './confirmation';
+import { validateDependencies } from './dependencies';
+import { validateDnsOptions } from './dns';
+import { closeOpenIncident } from './incidents';
+import { validateDegradedPolicy, validateProbeOptions } from './probe';
+import { generatePushToken, validatePushOptions } from './push';
+import { validateTcpOptions } from './tcp';
+import { validateTransactionOptions } from './transaction';
+import { CORS_HEADERS, errorResponse, jsonResponse, readJsonBody } from './http';
+
+export const MONITORED_SITES: HttpCheck[] = [
+  { name: 'main', url: 'https://teyvatarchive.online/api/health', timeout: 10000 },
+  { name: 'dashboard', url: 'https://dashboard.teyvatarchive.online', timeout: 10000 },
+  { name: 'api', url: 'https://server.teyvatarchive.online', timeout: 10000 },
+  { name: 'cdn', url: 'https://cdn.teyvatarchive.online/images/chapterIcons/UI_ChapterIcon_AkaFes.png', timeout: 10000 }
+];
+
+export const MONITORS_KEY = 'monitors';
+
+// Names end up inside KV keys (`history_day_<name>_<day>`), so underscores are not allowed
+// or `history_day_foo_` would also match the history of `foo_bar`.
+const MONITOR_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const MAX_TIMEOUT = 30000;
+const MAX_INTERVAL = 24 * 60;
+const MAX_DEPENDENCIES = 20;
+
+type MonitorType = NonNullable<SiteCheck['type']>;
+
+// Fields that only make sense for one kind of monitor, rejected on the others
+const TYPE_FIELDS: Record<MonitorType, string[]> = {
+  http: ['url', 'assertions', 'expectedStatus', 'redirect', 'redirectTo'],
+  tcp: ['host', 'port', 'send', 'expect'],
+  dns: ['host', 'recordType', 'resolver', 'expected'],
+  transaction: ['steps', 'variables'],
+  push: ['token', 'heartbeatInterval', 'gracePeriod']
+};
+const TYPE_VALIDATORS: Record<MonitorType, (raw: Record<string, unknown>) => string[]> = {
+  http: validateHttpOptions,
+  tcp: validateTcpOptions,
+  dns: validateDnsOptions,
+  transaction: validateTransactionOptions,
+  push: validatePushOptions
+};
+const MONITOR_TYPES = Object.keys(TYPE_FIELDS) as MonitorType[];
+
+export interface MonitorValidationResult {
+  monitor?: SiteCheck;
+  errors: string[];
+}
+
+/**
+ * Loads the monitor registry from KV. Until the registry has been written for the
+ * first time the built-in MONITORED_SITES are used, so a fresh deploy keeps working.
+ */
+export async function loadMonitors(env: Env): Promise<SiteCheck[]> {
+  const stored = await env.UPTIME_KV.get(MONITORS_KEY);
+  if (!stored) {
+    return MONITORED_SITES.map(site => ({ ...site }));
+  }
+
+  try {
+    const monitors = JSON.parse(stored);
+    if (Array.isArray(monitors)) {
+      return monitors;
+    }
+    console.warn('Monitor registry is not an array, falling back to defaults');
+  } catch (error) {
+    console.warn('Invalid JSON in monitor registry, falling back to defaults:', error);
+  }
+
+  return MONITORED_SITES.map(site => ({ ...site }));
+}
+
+export async function saveMonitors(env: Env, monitors: SiteCheck[]): Promise<void> {
+  await env.UPTIME_KV.put(MONITORS_KEY, JSON.stringify(monitors));
+}
+
+function validateHttpOptions(raw: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (typeof raw.url !== 'string') {
+    errors.push('url must be a string');
+  } else {
+    try {
+      const parsed = new URL(raw.url);
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        errors.push('url must use http or https');
+      }
+    } catch {
+      errors.push('url must be a valid URL');
+    }
+  }
+
+  if (raw.assertions !== undefined) {
+    errors.push(...validateAssertions(raw.assertions));
+  }
+
+  return [...errors, ...validateProbeOptions(raw)];
+}
+
+function httpMonitor(raw: Record<string, unknown>): HttpCheck {
+  const monitor: HttpCheck = {
+    name: raw.name as string,
+    url: raw.url as string,
+    timeout: raw.timeout as number
+  };
+  if (raw.type === 'http') {
+    monitor.type = 'http';
+  }
+  if (Array.isArray(raw.assertions) && raw.assertions.length > 0) {
+    monitor.assertions = raw.assertions;
+  }
+  if (Array.isArray(raw.expectedStatus) && raw.expectedStatus.length > 0) {
+    monitor.expectedStatus = raw.expectedStatus;
+  }
+  if (raw.redirect !== undefined) {
+    monitor.redirect = raw.redirect as HttpCheck['redirect'];
+  }
+  if (raw.redirectTo !== undefined) {
+    monitor.redirectTo = raw.redirectTo as string;
+  }
+  return monitor;
+}
+
+function tcpMonitor(raw: Record<string, unknown>): TcpCheck {
+  const monitor: TcpCheck = {
+    type: 'tcp',
+    name: raw.name as string,
+    host: raw.host as string,
+    port: raw.port as number,
+    timeout: raw.timeout as number
+  };
+  if (raw.send !== undefined) {
+    monitor.send = raw.send as string;
+  }
+  if (raw.expect !== undefined) {
+    monitor.expect = raw.expect as string;
+  }
+  return monitor;
+}
+
+function dnsMonitor(raw: Record<string, unknown>): DnsCheck {
+  const monitor: DnsCheck = {
+    type: 'dns',
+    name: raw.name as string,
+    host: raw.host as string,
+    recordType: raw.recordType as DnsCheck['recordType'],
+    timeout: raw.timeout as number
+  };
+  if (raw.resolver !== undefined) {
+    monitor.resolver = raw.resolver as string;
+  }
+  if (raw.expected !== undefined) {
+    monitor.expected = raw.expected as string[];
+  }
+  return monitor;
+}
+
+function transactionMonitor(raw: Record<string, unknown>): TransactionCheck {
+  const monitor: TransactionCheck = {
+    type: 'transaction',
+    name: raw.name as string,
+    steps: raw.steps as TransactionCheck['steps'],
+    timeout: raw.timeout as number
+  };
+  if (raw.variables !== undefined) {
+    monitor.variables = raw.variables as Record<string, string>;
+  }
+  return monitor;
+}
+
+function pushMonitor(raw: Record<string, unknown>): PushCheck {
+  const monitor: PushCheck = {
+    type: 'push',
+    name: raw.name as string,
+    token: (raw.token as string | undefined) ?? generatePushToken(),
+    heartbeatInterval: raw.heartbeatInterval as number
+  };
+  if (raw.gracePeriod !== undefined) {
+    monitor.gracePeriod = raw.gracePeriod as number;
+  }
+  return monitor;
+}
+
+const TYPE_BUILDERS: Record<MonitorType, (raw: Record<string, unknown>) => SiteCheck> = {
+  http: httpMonitor,
+  tcp: tcpMonitor,
+  dns: dnsMonitor,
+  transaction: transactionMonitor,
+  push: pushMonitor
+};
+
+/**
+ * Where a monitor points, for display and alerts: the URL of HTTP monitors,
+ * `tcp://host:port` for TCP, `dns:host?type=A` for DNS and the first step's URL for transactions.
+ * Push monitors give `push:name` so the token never ends up in alerts.
+ */
+export function monitorTarget(site: SiteCheck): string {
+  switch (site.type) {
+    case 'tcp':
+      return `tcp://${site.host}:${site.port}`;
+    case 'dns':
+      return `dns:${site.host}?type=${site.recordType}`;
+    case 'transaction':
+      return site.steps[0].url;
+    case 'push':
+      return `push:${site.name}`;
+    default:
+      return site.url;
+  }
+}
+
+export function validateMonitor(input: unknown): MonitorValidationResult {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Monitor must be a JSON object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (typeof raw.name !== 'string' || !MONITOR_NAME_PATTERN.test(raw.name)) {
+    errors.push('name must be 1-64 lowercase letters, digits or dashes and start with a letter or digit');
+  }
+
+  const type = (raw.type ?? 'http') as MonitorType;
+  if (!MONITOR_TYPES.includes(type)) {
+    errors.push(`type must be one of ${MONITOR_TYPES.join(', ')}`);
+  } else {
+    errors.push(...TYPE_VALIDATORS[type](raw));
+
+    for (const other of MONITOR_TYPES) {
+      for (const field of TYPE_FIELDS[other]) {
+        if (raw[field] !== undefined && !TYPE_FIELDS[type].includes(field)) {
+          errors.push(`${field} is only supported for ${MONITOR_TYPES.filter(t => TYPE_FIELDS[t].includes(field)).join(' and ')} monitors`);
+        }
+      }
+    }
+  }
+
+  // Push monitors never probe anything, so there is nothing to time out or be slow
+  if (type === 'push') {
+    for (const field of ['timeout', 'degraded']) {
+      if (raw[field] !== undefined) {
+        errors.push(`${field} is not supported for push monitors`);
+      }
+    }
+  } else if (typeof raw.timeout !== 'number' || !Number.isInteger(raw.timeout) || raw.timeout <= 0 || raw.timeout > MAX_TIMEOUT) {
+    errors.push(`timeout must be an integer between 1 and ${MAX_TIMEOUT} milliseconds`);
+  }
+
+  if (raw.paused !== undefined && typeof raw.paused !== 'boolean') {
+    errors.push('paused must be a boolean');
+  }
+
+  if (raw.interval !== undefined && (typeof raw.interval !== 'number' || !Number.isInteger(raw.interval) || raw.interval < 1 || raw.interval > MAX_INTERVAL)) {
+    errors.push(`interval must be an integer between 1 and ${MAX_INTERVAL} minutes`);
+  }
+
+  if (raw.confirmation !== undefined) {
+    errors.push(...validateConfirmation(raw.confirmation));
+  }
+
+  // Whether the dependencies exist is checked against the registry when the monitor is saved
+  const dependsOn = raw.dependsOn;
+  if (
+    dependsOn !== undefined &&
+    (!Array.isArray(dependsOn) ||
+      dependsOn.length > MAX_DEPENDENCIES ||
+      !dependsOn.every(name => typeof name === 'string' && MONITOR_NAME_PATTERN.test(name) && name !== raw.name) ||
+      new Set(dependsOn).size !== dependsOn.length)
+  ) {
+    errors.push(`dependsOn must be an array of up to ${MAX_DEPENDENCIES} other monitor names without duplicates`);
+  }
+
+  if (raw.degraded !== undefined && type !== 'push') {
+    errors.push(...validateDegradedPolicy(raw));
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const monitor = TYPE_BUILDERS[type](raw);
+  if (raw.paused) {
+    monitor.paused = true;
+  }
+  if (raw.interval !== undefined) {
+    monitor.interval = raw.interval as number;
+  }
+  if (raw.confirmation !== undefined) {
+    monitor.confirmation = raw.confirmation as SiteCheck['confirmation'];
+  }
+  if (raw.degraded !== undefined) {
+    monitor.degraded = raw.degraded as SiteCheck['degraded'];
+  }
+  if (Array.isArray(dependsOn) && dependsOn.length > 0) {
+    monitor.dependsOn = dependsOn;
+  }
+
+  return { monitor, errors };
+}
+
+const tokenInUse = (monitors: SiteCheck[], monitor: SiteCheck) =>
+  monitor.type === 'push' && monitors.some(m => m.type === 'push' && m.token === monitor.token && m.name !== monitor.name);
+
+async function setPaused(env: Env, name: string, paused: boolean): Promise<Response> {
+  const monitors = await loadMonitors(env);
+  const monitor = monitors.find(m => m.name === name);
+  if (!monitor) {
+    return errorResponse(`Monitor '${name}' not found`, 404);
+  }
+
+  if (paused) {
+    monitor.paused = true;
+  } else {
+    delete monitor.paused;
+  }
+  await saveMonitors(env, monitors);
+  if (paused) {
+    await closeOpenIncident(env, name, Date.now());
+  }
+
+  return jsonResponse(monitor);
+}
+
+const REDACTED = '********';
+
+const redactValues = (values: Record<string, string>) => Object.fromEntries(Object.keys(values).map(key => [key, REDACTED]));
+
+/**
+ * Replaces the secrets a monitor can hold with placeholders: the push token, and the header
+ * values, bodies and variables of transaction steps, which often carry credentials.
+ */
+export function redactMonitor(monitor: SiteCheck): SiteCheck {
+  if (monitor.type === 'push') {
+    return { ...monitor, token: REDACTED };
+  }
+  if (monitor.type !== 'transaction') {
+    return monitor;
+  }
+
+  const redacted: TransactionCheck = {
+    ...monitor,
+    steps: monitor.steps.map(step => ({
+      ...step,
+      ...(step.headers ? { headers: redactValues(step.headers) } : {}),
+      ...(step.body !== undefined ? { body: REDACTED } : {})
+    }))
+  };
+  if (monitor.variables) {
+    redacted.variables = redactValues(monitor.variables);
+  }
+  return redacted;
+}
+
+/**
+ * Handles `/api/monitors` and `/api/monitors/:name[/pause|/resume]`. Callers without the
+ * `write:monitors` scope get monitors with their secrets redacted.
+ * Deleting or pausing a monitor leaves its current status and history in KV untouched, but
+ * resolves its open incident.
+ */
+export async function handleMonitors(request: Request, env: Env, path: string, scopes: ApiScope[]): Promise<Response> {
+  const describe = (monitor: SiteCheck) => (hasScope(scopes, 'write:monitors') ? monitor : redactMonitor(monitor));
+  const segments = path.split('/').filter(Boolean).slice(2);
+  const [name, action] = segments;
+
+  if (segments.length > 2 || (action && action !== 'pause' && action !== 'resume')) {
+    return errorResponse('Not found', 404);
+  }
+
+  if (action) {
+    if (request.method !== 'POST') {
+      return errorResponse('Method not allowed', 405);
+    }
+    return await setPaused(env, name, action === 'pause');
+  }
+
+  if (!name) {
+    if (request.method === 'GET') {
+      return jsonResponse((await loadMonitors(env)).map(describe));
+    }
+
+    if (request.method === 'POST') {
+      const { monitor, errors } = validateMonitor(await readJsonBody(request));
+      if (!monitor) {
+        return errorResponse('Invalid monitor', 400, errors);
+      }
+
+      const monitors = await loadMonitors(env);
+      if (monitors.some(m => m.name === monitor.name)) {
+        return errorResponse(`Monitor '${monitor.name}' already exists`, 409);
+      }
+      if (tokenInUse(monitors, monitor)) {
+        return errorResponse('Push token is already in use', 409);
+      }
+      const dependencyErrors = validateDependencies(monitor, monitors);
+      if (dependencyErrors.length > 0) {
+        return errorResponse('Invalid monitor', 400, dependencyErrors);
+      }
+
+      monitor.createdAt = Date.now();
+      monitors.push(monitor);
+      await saveMonitors(env, monitors);
+      return jsonResponse(monitor, 201);
+    }
+
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const monitors = await loadMonitors(env);
+  const index = monitors.findIndex(m => m.name === name);
+
+  if (request.method === 'GET') {
+    return index === -1 ? errorResponse(`Monitor '${name}' not found`, 404) : jsonResponse(describe(monitors[index]));
+  }
+
+  if (request.method === 'PUT') {
+    if (index === -1) {
+      return errorResponse(`Monitor '${name}' not found`, 404);
+    }
+
+    const body = await readJsonBody(request);
+    const input = body && typeof body === 'object' && !Array.isArray(body) ? { name, ...body } : body;
+    const { monitor, errors } = validateMonitor(input);
+    if (!monitor) {
+      return errorResponse('Invalid monitor', 400, errors);
+    }
+    if (monitor.name !== name) {
+      return errorResponse('Monitor name cannot be changed', 400);
+    }
+
+    const existing = monitors[index];
+    // Keep the heartbeat URL stable unless a new token is given explicitly
+    if (monitor.type === 'push' && existing.type === 'push' && (body as Record<string, unknown>).token === undefined) {
+      monitor.token = existing.token;
+    }
+    if (tokenInUse(monitors, monitor)) {
+      return errorResponse('Push token is already in use', 409);
+    }
+    const dependencyErrors = validateDependencies(monitor, monitors);
+    if (dependencyErrors.length > 0) {
+      return errorResponse('Invalid monitor', 400, dependencyErrors);
+    }
+    if (existing.createdAt !== undefined) {
+      monitor.createdAt = existing.createdAt;
+    }
+    // Leaving `paused` out of the body keeps the monitor paused or running as it was
+    if (existing.paused && (body as Record<string, unknown>).paused === undefined) {
+      monitor.paused = true;
+    }
+    monitors[index] = monitor;
+    await saveMonitors(env, monitors);
+    if (monitor.paused && !existing.paused) {
+      await closeOpenIncident(env, name, Date.now());
+    }
+    return jsonResponse(monitor);
+  }
+
+  if (request.method === 'DELETE') {
+    if (index === -1) {
+      return errorResponse(`Monitor '${name}' not found`, 404);
+    }
+    const dependents = monitors.filter(m => m.dependsOn?.includes(name)).map(m => m.name);
+    if (dependents.length > 0) {
+      return errorResponse(`Monitor '${name}' is a dependency of ${dependents.join(', ')}`, 409);
+    }
+
+    monitors.splice(index, 1);
+    await saveMonitors(env, monitors);
+    await closeOpenIncident(env, name, Date.now());
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  return errorResponse('Method not allowed', 405);
+}
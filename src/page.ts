@@ -0,0 +1,216 @@
+import type { Env, SiteCheck, UptimeData } from './types';
+import { describeCause, queryIncidents, type Incident } from './incidents';
+import { loadMaintenanceWindows, maintenanceSchedule, type MaintenancePeriod, type MaintenanceWindow } from './maintenance';
+import { loadMonitors } from './monitors';
+import { computeUptime, withStartTime } from './uptime';
+import { escapeHtml, formatDuration, formatTime } from './utils';
+
+const DAY = 24 * 60 * 60 * 1000;
+const BAR_DAYS = 90;
+const RECENT_INCIDENTS = 10;
+
+interface SiteSummary {
+  site: SiteCheck;
+  current: UptimeData | null;
+  days: (number | null)[];
+  uptime90d: number | null;
+}
+
+function overallState(summaries: SiteSummary[]): { label: string; className: string } {
+  const active = summaries.filter(summary => !summary.site.paused && summary.current);
+  const down = active.filter(summary => summary.current!.status === 'down').length;
+
+  if (active.length === 0) {
+    return { label: 'No data yet', className: 'unknown' };
+  }
+  if (down === 0) {
+    if (active.some(summary => summary.current!.status === 'degraded')) {
+      return { label: 'Degraded performance', className: 'degraded' };
+    }
+    return active.some(summary => summary.current!.status === 'maintenance')
+      ? { label: 'Scheduled maintenance in progress', className: 'maintenance' }
+      : { label: 'All systems operational', className: 'up' };
+  }
+  if (down === active.length) {
+    return { label: 'Major outage', className: 'down' };
+  }
+  return { label: 'Partial outage', className: 'partial' };
+}
+
+function barClass(uptime: number | null): string {
+  if (uptime === null) {
+    return 'none';
+  }
+  if (uptime >= 100) {
+    return 'up';
+  }
+  return uptime >= 99 ? 'minor' : uptime >= 95 ? 'partial' : 'down';
+}
+
+function renderSite({ site, current, days, uptime90d }: SiteSummary, now: number): string {
+  const status = site.paused ? 'paused' : current?.status ?? 'unknown';
+  const firstDay = Math.floor(now / DAY) * DAY - (BAR_DAYS - 1) * DAY;
+  const bars = days
+    .map((uptime, index) => {
+      const label = `${new Date(firstDay + index * DAY).toISOString().slice(0, 10)}: ${uptime === null ? 'no data' : `${uptime}%`}`;
+      return `<span class="bar ${barClass(uptime)}" title="${escapeHtml(label)}"></span>`;
+    })
+    .join('');
+
+  return `
+    <section class="site" data-site="${escapeHtml(site.name)}">
+      <div class="site-header">
+        <h2>${escapeHtml(site.name)}</h2>
+        <span class="status ${escapeHtml(status)}" data-field="status">${escapeHtml(status)}</span>
+      </div>
+      <dl>
+        <dt>Response time</dt><dd data-field="responseTime">${current ? `${escapeHtml(current.responseTime)} ms` : '–'}</dd>
+        <dt>Last checked</dt><dd data-field="timestamp">${current ? `<time datetime="${new Date(current.timestamp).toISOString()}">${formatTime(current.timestamp)}</time>` : '–'}</dd>
+        <dt>90-day uptime</dt><dd>${uptime90d === null ? '–' : `${uptime90d}%`}</dd>
+      </dl>
+      <div class="bars" aria-label="Daily uptime for the last ${BAR_DAYS} days">${bars}</div>
+    </section>`;
+}
+
+function renderMaintenance(period: MaintenancePeriod, now: number): string {
+  const sites = period.sites ? period.sites.map(escapeHtml).join(', ') : 'All services';
+  const when = period.startsAt <= now ? `in progress, ends ${formatTime(period.endsAt)}` : `${formatTime(period.startsAt)} – ${formatTime(period.endsAt)}`;
+
+  return `
+      <li class="maintenance">
+        <strong>${escapeHtml(period.title ?? 'Scheduled maintenance')}</strong> — ${sites}
+        <span class="meta">${when}</span>
+      </li>`;
+}
+
+function renderIncident(incident: Incident): string {
+  const cause = describeCause(incident);
+  const duration = incident.resolvedAt !== undefined ? `resolved after ${formatDuration(incident.resolvedAt - incident.startedAt)}` : 'ongoing';
+
+  return `
+      <li class="incident ${incident.status} ${incident.severity ?? 'down'}">
+        <strong>${escapeHtml(incident.site)}</strong> — ${escapeHtml(cause)}
+        <span class="meta">${formatTime(incident.startedAt)}, ${duration}</span>
+      </li>`;
+}
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 0; background: #f6f7f9; color: #1f2328; }
+  main { max-width: 860px; margin: 0 auto; padding: 24px 16px; }
+  h1 { font-size: 1.5rem; }
+  .overall { padding: 16px; border-radius: 8px; color: #fff; font-weight: 600; margin-bottom: 24px; }
+  .overall.up { background: #2da44e; } .overall.partial { background: #d4a72c; }
+  .overall.down { background: #cf222e; } .overall.unknown { background: #8c959f; }
+  .overall.maintenance { background: #0969da; } .overall.degraded { background: #d4a72c; }
+  .site { background: #fff; border-radius: 8px; padding: 16px; margin-bottom: 12px; box-shadow: 0 1px 2px rgba(0,0,0,.08); }
+  .site-header { display: flex; justify-content: space-between; align-items: center; }
+  .site h2 { font-size: 1.1rem; margin: 0; }
+  .status { text-transform: uppercase; font-size: .75rem; font-weight: 700; padding: 2px 8px; border-radius: 4px; background: #8c959f; color: #fff; }
+  .status.up { background: #2da44e; } .status.down { background: #cf222e; } .status.maintenance { background: #0969da; }
+  .status.degraded { background: #d4a72c; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 12px; font-size: .9rem; }
+  dt { color: #656d76; } dd { margin: 0; }
+  .bars { display: flex; gap: 2px; height: 28px; }
+  .bar { flex: 1; border-radius: 2px; background: #d0d7de; }
+  .bar.up { background: #2da44e; } .bar.minor { background: #a2d48b; }
+  .bar.partial { background: #d4a72c; } .bar.down { background: #cf222e; }
+  .incidents, .schedule { list-style: none; padding: 0; }
+  .schedule .maintenance { background: #fff; border-left: 4px solid #0969da; padding: 8px 12px; margin-bottom: 8px; }
+  .incident { background: #fff; border-left: 4px solid #cf222e; padding: 8px 12px; margin-bottom: 8px; }
+  .incident.degraded { border-color: #d4a72c; } .incident.resolved { border-color: #2da44e; }
+  .meta { display: block; color: #656d76; font-size: .85rem; }
+  footer { color: #656d76; font-size: .8rem; margin-top: 24px; }`;
+
+// Progressive enhancement only: the page is complete without it
+const REFRESH_SCRIPT = `
+  (function () {
+    function refresh() {
+      fetch('/api/status').then(function (r) { return r.json(); }).then(function (statuses) {
+        Object.keys(statuses).forEach(function (name) {
+          var data = statuses[name];
+          var el = document.querySelector('[data-site="' + name + '"]');
+          if (!el || !data) return;
+          var status = el.querySelector('[data-field="status"]');
+          if (status.textContent !== 'paused') { status.textContent = data.status; status.className = 'status ' + data.status; }
+          el.querySelector('[data-field="responseTime"]').textContent = data.responseTime + ' ms';
+          el.querySelector('[data-field="timestamp"]').textContent = new Date(data.timestamp).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+        });
+      }).catch(function () {});
+    }
+    setInterval(refresh, 60000);
+  })();`;
+
+async function summarize(env: Env, site: SiteCheck, now: number, maintenance: MaintenanceWindow[]): Promise<{ summary: SiteSummary; incidents: Incident[] }> {
+  const firstDay = Math.floor(now / DAY) * DAY - (BAR_DAYS - 1) * DAY;
+  const incidents = await queryIncidents(env, { site: site.name, from: firstDay, to: now });
+
+  let current: UptimeData | null = null;
+  const stored = await env.UPTIME_KV.get(`current_${site.name}`);
+  try {
+    current = stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.warn(`Invalid JSON data for site ${site.name}:`, error);
+  }
+
+  const monitored = await withStartTime(env, site);
+  const days = Array.from({ length: BAR_DAYS }, (_, index) => {
+    const from = firstDay + index * DAY;
+    const to = Math.min(from + DAY, now);
+    return computeUptime(monitored, incidents, from, to, now, maintenance).uptimePercent;
+  });
+
+  return {
+    summary: { site, current, days, uptime90d: computeUptime(monitored, incidents, firstDay, now, now, maintenance).uptimePercent },
+    incidents
+  };
+}
+
+export async function renderStatusPage(env: Env): Promise<Response> {
+  const now = Date.now();
+  const monitors = await loadMonitors(env);
+  const maintenance = await loadMaintenanceWindows(env);
+  const summaries: SiteSummary[] = [];
+  const incidents: Incident[] = [];
+
+  for (const site of monitors) {
+    const result = await summarize(env, site, now, maintenance);
+    summaries.push(result.summary);
+    incidents.push(...result.incidents);
+  }
+
+  const recent = incidents.sort((a, b) => b.startedAt - a.startedAt).slice(0, RECENT_INCIDENTS);
+  const overall = overallState(summaries);
+  const schedule = maintenanceSchedule(maintenance, now);
+  const periods = [...schedule.active, ...schedule.upcoming];
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Teyvat Archive Status</title>
+  <link rel="alternate" type="application/atom+xml" title="Teyvat Archive Status" href="/feed.atom">
+  <link rel="alternate" type="application/rss+xml" title="Teyvat Archive Status" href="/feed.rss">
+  <style>${STYLES}</style>
+</head>
+<body>
+  <main>
+    <h1>Teyvat Archive Status</h1>
+    <div class="overall ${overall.className}">${overall.label}</div>
+    ${periods.length > 0 ? `<h2>Scheduled maintenance</h2>\n    <ul class="schedule">${periods.map(period => renderMaintenance(period, now)).join('')}\n    </ul>` : ''}
+    ${summaries.map(summary => renderSite(summary, now)).join('')}
+    <h2>Recent incidents</h2>
+    ${recent.length > 0 ? `<ul class="incidents">${recent.map(renderIncident).join('')}\n    </ul>` : '<p>No incidents in the last 90 days.</p>'}
+    <footer>Generated ${formatTime(now)}. Data is also available as JSON at <a href="/api/status">/api/status</a>.</footer>
+  </main>
+  <script>${REFRESH_SCRIPT}</script>
+</body>
+</html>`;
+
+  return new Response(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=60'
+    }
+  });
+}
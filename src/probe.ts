@@ -0,0 +1,151 @@
+import type { HttpCheck } from './types';
+
+export type RedirectMode = 'follow' | 'manual' | 'fail' | 'mustRedirectTo';
+
+/** A single status code (`301`) or an inclusive range (`'200-299'`). */
+export type ExpectedStatus = number | string;
+
+export interface DegradedPolicy {
+  /** Response time in milliseconds from which a passing check is reported as degraded. */
+  threshold: number;
+  /** Whether degraded time counts as uptime in reports; defaults to true. */
+  countsAsUp?: boolean;
+}
+
+export interface ProbeResult {
+  response: Response;
+  finalUrl: string;
+  redirects: string[];
+}
+
+const REDIRECT_MODES: RedirectMode[] = ['follow', 'manual', 'fail', 'mustRedirectTo'];
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const MAX_REDIRECTS = 10;
+const STATUS_RANGE_PATTERN = /^(\d{3})-(\d{3})$/;
+
+/**
+ * Fetches the site with `redirect: 'manual'` and follows redirects by hand so the chain
+ * can be recorded. In `manual` and `fail` modes the first redirect is reported but not followed.
+ */
+export async function fetchWithRedirects(site: HttpCheck, init: RequestInit): Promise<ProbeResult> {
+  const mode = site.redirect ?? 'follow';
+  const redirects: string[] = [];
+  let url = site.url;
+
+  for (;;) {
+    const response = await fetch(url, { ...init, redirect: 'manual' });
+    const location = REDIRECT_STATUSES.includes(response.status) ? response.headers?.get('Location') : null;
+
+    if (!location) {
+      return { response, finalUrl: url, redirects };
+    }
+
+    const target = new URL(location, url).toString();
+    redirects.push(target);
+
+    if (mode === 'manual' || mode === 'fail') {
+      return { response, finalUrl: url, redirects };
+    }
+    if (redirects.length > MAX_REDIRECTS) {
+      throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+    url = target;
+  }
+}
+
+export function isExpectedStatus(response: Response, expected?: ExpectedStatus[]): boolean {
+  if (!expected || expected.length === 0) {
+    return response.ok;
+  }
+
+  return expected.some(entry => {
+    if (typeof entry === 'number') {
+      return response.status === entry;
+    }
+    const [, min, max] = STATUS_RANGE_PATTERN.exec(entry) ?? [];
+    return min !== undefined && response.status >= Number(min) && response.status <= Number(max);
+  });
+}
+
+/**
+ * Returns an error message when the redirects seen during the probe break the site's redirect policy.
+ */
+export function checkRedirectPolicy(site: HttpCheck, probe: ProbeResult): string | undefined {
+  if (site.redirect === 'fail' && probe.redirects.length > 0) {
+    return `Unexpected redirect to ${probe.redirects[0]}`;
+  }
+
+  if (site.redirect === 'mustRedirectTo' && site.redirectTo) {
+    const target = new URL(site.redirectTo).toString();
+    if (probe.redirects.length === 0) {
+      return `Expected redirect to ${target} but the site did not redirect`;
+    }
+    if (probe.finalUrl !== target) {
+      return `Redirected to ${probe.finalUrl} instead of ${target}`;
+    }
+  }
+
+  return undefined;
+}
+
+export function validateProbeOptions(raw: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (raw.expectedStatus !== undefined) {
+    const valid =
+      Array.isArray(raw.expectedStatus) &&
+      raw.expectedStatus.every(entry => {
+        if (typeof entry === 'number') {
+          return Number.isInteger(entry) && entry >= 100 && entry <= 599;
+        }
+        const match = typeof entry === 'string' ? STATUS_RANGE_PATTERN.exec(entry) : null;
+        return match !== null && Number(match[1]) >= 100 && Number(match[1]) <= Number(match[2]) && Number(match[2]) <= 599;
+      });
+    if (!valid) {
+      errors.push("expectedStatus must be an array of status codes (100-599) or ranges like '200-299'");
+    }
+  }
+
+  if (raw.redirect !== undefined && !REDIRECT_MODES.includes(raw.redirect as RedirectMode)) {
+    errors.push(`redirect must be one of ${REDIRECT_MODES.join(', ')}`);
+  }
+
+  if (raw.redirect === 'mustRedirectTo') {
+    let validTarget = typeof raw.redirectTo === 'string';
+    if (validTarget) {
+      try {
+        new URL(raw.redirectTo as string);
+      } catch {
+        validTarget = false;
+      }
+    }
+    if (!validTarget) {
+      errors.push('redirectTo must be a valid URL when redirect is mustRedirectTo');
+    }
+  } else if (raw.redirectTo !== undefined) {
+    errors.push('redirectTo is only allowed when redirect is mustRedirectTo');
+  }
+
+  return errors;
+}
+
+/**
+ * Validates the `degraded` policy of a monitor; the threshold has to stay below the timeout.
+ */
+export function validateDegradedPolicy(raw: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const degraded = raw.degraded as Record<string, unknown> | null;
+  const maxThreshold = typeof raw.timeout === 'number' ? raw.timeout : Infinity;
+
+  if (!degraded || typeof degraded !== 'object' || Array.isArray(degraded)) {
+    return ['degraded must be an object'];
+  }
+  if (typeof degraded.threshold !== 'number' || !Number.isInteger(degraded.threshold) || degraded.threshold <= 0 || degraded.threshold >= maxThreshold) {
+    errors.push('degraded.threshold must be a positive integer below the timeout in milliseconds');
+  }
+  if (degraded.countsAsUp !== undefined && typeof degraded.countsAsUp !== 'boolean') {
+    errors.push('degraded.countsAsUp must be a boolean');
+  }
+
+  return errors;
+}
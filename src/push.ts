@@ -0,0 +1,112 @@
+import type { Env, PushCheck, SiteCheck, UptimeData } from './types';
+import { errorResponse, jsonResponse, readJsonBody } from './http';
+import { readJson } from './storage';
+import { formatDuration } from './utils';
+
+export interface Heartbeat {
+  status: 'up' | 'down';
+  message?: string;
+  timestamp: number;
+}
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const HEARTBEAT_STATUSES: Heartbeat['status'][] = ['up', 'down'];
+const MIN_INTERVAL = 60 * 1000;
+const MAX_INTERVAL = 31 * 24 * 60 * 60 * 1000;
+const MAX_MESSAGE_LENGTH = 500;
+
+export const generatePushToken = () => crypto.randomUUID().replace(/-/g, '');
+
+/**
+ * Evaluates the last heartbeat: the monitor is down once the interval plus grace period
+ * has passed without one, or when the last heartbeat reported a failure. Before the first
+ * heartbeat the deadline counts from the monitor's creation.
+ */
+export async function probePush(site: PushCheck, env: Env): Promise<UptimeData> {
+  const timestamp = Date.now();
+  const heartbeat = await readJson<Heartbeat>(env, `heartbeat_${site.name}`);
+  const since = heartbeat?.timestamp ?? site.createdAt;
+  const data: UptimeData = { status: 'up', responseTime: 0, timestamp };
+
+  if (heartbeat) {
+    data.lastHeartbeat = heartbeat.timestamp;
+    if (heartbeat.message !== undefined) {
+      data.message = heartbeat.message;
+    }
+  }
+
+  if (since === undefined || timestamp - since > site.heartbeatInterval + (site.gracePeriod ?? 0)) {
+    data.status = 'down';
+    data.error = heartbeat ? `No heartbeat for ${formatDuration(timestamp - heartbeat.timestamp)}` : 'No heartbeat received yet';
+  } else if (heartbeat?.status === 'down') {
+    data.status = 'down';
+    data.error = heartbeat.message ?? 'Heartbeat reported a failure';
+  }
+
+  return data;
+}
+
+export function validatePushOptions(raw: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (raw.token !== undefined && (typeof raw.token !== 'string' || !TOKEN_PATTERN.test(raw.token))) {
+    errors.push('token must be 16-128 letters, digits, dashes or underscores');
+  }
+
+  if (typeof raw.heartbeatInterval !== 'number' || !Number.isInteger(raw.heartbeatInterval) || raw.heartbeatInterval < MIN_INTERVAL || raw.heartbeatInterval > MAX_INTERVAL) {
+    errors.push(`heartbeatInterval must be an integer between ${MIN_INTERVAL} and ${MAX_INTERVAL} milliseconds`);
+  }
+
+  if (raw.gracePeriod !== undefined && (typeof raw.gracePeriod !== 'number' || !Number.isInteger(raw.gracePeriod) || raw.gracePeriod < 0 || raw.gracePeriod > MAX_INTERVAL)) {
+    errors.push(`gracePeriod must be an integer between 0 and ${MAX_INTERVAL} milliseconds`);
+  }
+
+  return errors;
+}
+
+/**
+ * Handles `GET|POST /api/push/:token` for one of `monitors`. The status and message come from
+ * the query string or, for POST, a JSON body. Only the heartbeat is stored; the monitor's status
+ * changes when the next scheduled check evaluates it with `probePush`.
+ */
+export async function handlePush(request: Request, env: Env, path: string, monitors: SiteCheck[]): Promise<Response> {
+  const segments = path.split('/').filter(Boolean).slice(2);
+  const [token] = segments;
+
+  if (segments.length !== 1) {
+    return errorResponse('Not found', 404);
+  }
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  const site = monitors.find((monitor): monitor is PushCheck => monitor.type === 'push' && monitor.token === token);
+  if (!site) {
+    return errorResponse('Unknown push token', 404);
+  }
+
+  const params = new URL(request.url).searchParams;
+  const body = request.method === 'POST' ? await readJsonBody(request) : undefined;
+  const input = (body && typeof body === 'object' && !Array.isArray(body) ? body : {}) as Record<string, unknown>;
+  const status = input.status ?? params.get('status') ?? 'up';
+  const message = input.message ?? params.get('message') ?? undefined;
+
+  const errors: string[] = [];
+  if (!HEARTBEAT_STATUSES.includes(status as Heartbeat['status'])) {
+    errors.push(`status must be one of ${HEARTBEAT_STATUSES.join(', ')}`);
+  }
+  if (message !== undefined && (typeof message !== 'string' || message.length > MAX_MESSAGE_LENGTH)) {
+    errors.push(`message must be a string of at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+  if (errors.length > 0) {
+    return errorResponse('Invalid heartbeat', 400, errors);
+  }
+
+  const heartbeat: Heartbeat = { status: status as Heartbeat['status'], timestamp: Date.now() };
+  if (message !== undefined) {
+    heartbeat.message = message as string;
+  }
+  await env.UPTIME_KV.put(`heartbeat_${site.name}`, JSON.stringify(heartbeat));
+
+  return jsonResponse({ monitor: site.name, heartbeat });
+}
@@ -0,0 +1,141 @@
+import type { Env, SiteCheck } from './types';
+import { jsonResponse } from './http';
+import { loadMonitors } from './monitors';
+
+/** What the last cron run that checked anything did. */
+export interface TickSummary {
+  timestamp: number;
+  ran: string[];
+  /** Monitors that ran after missing their slot, e.g. because a cron run was dropped or failed. */
+  overdue: string[];
+  /** Monitors that were not due yet. */
+  skipped: string[];
+}
+
+export interface ScheduleState {
+  /** Start of the last cron run that checked each monitor. */
+  lastRuns: Record<string, number>;
+  lastTick?: TickSummary;
+}
+
+export interface TickPlan {
+  due: SiteCheck[];
+  overdue: string[];
+  skipped: string[];
+}
+
+export const SCHEDULE_KEY = 'schedule';
+export const DEFAULT_INTERVAL = 5;
+
+const MINUTE = 60 * 1000;
+
+export async function loadSchedule(env: Env): Promise<ScheduleState> {
+  const stored = await env.UPTIME_KV.get(SCHEDULE_KEY);
+  if (!stored) {
+    return { lastRuns: {} };
+  }
+
+  try {
+    const state = JSON.parse(stored);
+    return state && typeof state.lastRuns === 'object' ? state : { lastRuns: {} };
+  } catch (error) {
+    console.warn('Invalid JSON in schedule state:', error);
+    return { lastRuns: {} };
+  }
+}
+
+export async function saveSchedule(env: Env, state: ScheduleState): Promise<void> {
+  await env.UPTIME_KV.put(SCHEDULE_KEY, JSON.stringify(state));
+}
+
+// Spreads monitors with the same interval over the cron runs instead of running them all at once
+function slotOffset(name: string, interval: number): number {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash % interval;
+}
+
+/**
+ * Start of the slot a monitor is in at `now`, in milliseconds. Every monitor runs once per
+ * slot of `interval` minutes; slots are staggered per monitor by a hash of its name.
+ */
+function slotStart(site: SiteCheck, now: number): number {
+  const interval = site.interval ?? DEFAULT_INTERVAL;
+  const minute = Math.floor(now / MINUTE);
+  return (minute - ((minute + slotOffset(site.name, interval)) % interval)) * MINUTE;
+}
+
+/**
+ * Picks the monitors to check in the cron run at `now`: those that have not run in their
+ * current slot. A monitor is overdue when the cron run at the start of its slot did not check it.
+ */
+export function planTick(monitors: SiteCheck[], state: ScheduleState, now: number): TickPlan {
+  const plan: TickPlan = { due: [], overdue: [], skipped: [] };
+
+  for (const site of monitors) {
+    const lastRun = state.lastRuns[site.name];
+    const slot = slotStart(site, now);
+
+    if (lastRun !== undefined && lastRun >= slot) {
+      plan.skipped.push(site.name);
+      continue;
+    }
+
+    plan.due.push(site);
+    if (lastRun !== undefined && now - slot >= MINUTE) {
+      plan.overdue.push(site.name);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Records a cron run before its checks start, so a run that outlasts a minute does not get
+ * its monitors checked again by the next one. Monitors that no longer exist are dropped.
+ */
+export async function recordTick(env: Env, state: ScheduleState, monitors: SiteCheck[], plan: TickPlan, now: number): Promise<void> {
+  const lastRuns: Record<string, number> = {};
+  for (const site of monitors) {
+    if (state.lastRuns[site.name] !== undefined) {
+      lastRuns[site.name] = state.lastRuns[site.name];
+    }
+  }
+  for (const site of plan.due) {
+    lastRuns[site.name] = now;
+  }
+
+  await saveSchedule(env, {
+    lastRuns,
+    lastTick: { timestamp: now, ran: plan.due.map(site => site.name), overdue: plan.overdue, skipped: plan.skipped }
+  });
+}
+
+/**
+ * Handles `/api/schedule`: the interval, last and next run of every active monitor and a
+ * summary of the last cron run that checked anything.
+ */
+export async function getSchedule(env: Env): Promise<Response> {
+  const now = Date.now();
+  const state = await loadSchedule(env);
+  const monitors = (await loadMonitors(env)).filter(site => !site.paused);
+
+  return jsonResponse({
+    monitors: monitors.map(site => {
+      const interval = site.interval ?? DEFAULT_INTERVAL;
+      const lastRun = state.lastRuns[site.name] ?? null;
+      const slot = slotStart(site, now);
+      const ranInSlot = lastRun !== null && lastRun >= slot;
+      return {
+        name: site.name,
+        interval,
+        lastRun,
+        nextRun: ranInSlot ? slot + interval * MINUTE : now,
+        overdue: !ranInSlot && lastRun !== null && now - slot >= MINUTE
+      };
+    }),
+    lastTick: state.lastTick ?? null
+  });
+}
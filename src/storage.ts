@@ -0,0 +1,31 @@
+import type { Env } from './types';
+
+/**
+ * Lists every key under a prefix, following `list` cursors past the 1000-key page limit.
+ */
+export async function listAllKeys(env: Env, prefix: string): Promise<KVNamespaceListKey<unknown>[]> {
+  const keys: KVNamespaceListKey<unknown>[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await env.UPTIME_KV.list({ prefix, cursor });
+    keys.push(...page.keys);
+    cursor = page.list_complete === false ? page.cursor : undefined;
+  } while (cursor);
+
+  return keys;
+}
+
+export async function readJson<T>(env: Env, key: string): Promise<T | null> {
+  const data = await env.UPTIME_KV.get(key);
+  if (!data) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    console.warn(`Invalid JSON data for key ${key}:`, error);
+    return null;
+  }
+}
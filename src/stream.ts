@@ -0,0 +1,175 @@
+import type { Env, UptimeData } from './types';
+import type { RunAggregates } from './aggregates';
+import { errorResponse } from './http';
+import { loadMonitors } from './monitors';
+import { readJson } from './storage';
+import { sleep } from './utils';
+
+export interface StreamEvent {
+  id: number;
+  type: 'result' | 'transition';
+  site: string;
+  /** Status before a transition. */
+  from?: UptimeData['status'];
+  data: UptimeData;
+}
+
+export const STREAM_EVENTS_PREFIX = 'stream_events_';
+export const POLL_INTERVAL = 5000;
+export const HEARTBEAT_INTERVAL = 15000;
+// Streams end after a while so a Worker request never runs unbounded; EventSource reconnects
+export const STREAM_DURATION = 10 * 60 * 1000;
+// How long events can be resumed from; streams that missed older events start with a new snapshot
+export const STREAM_RETENTION = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+// Ids are the start of the minute an event was written in, in microseconds, plus its position in that minute
+const IDS_PER_MS = 1000;
+const RETRY_DELAY = 5000;
+
+const minuteStart = (timestamp: number) => Math.floor(timestamp / MINUTE) * MINUTE;
+const minuteOfId = (id: number) => minuteStart(Math.floor(id / IDS_PER_MS));
+
+/**
+ * Events are kept per minute under `stream_events_<minute start>`, oldest first. Workers cannot
+ * notify each other, so each run appends to the key of the minute it writes in and open streams
+ * read the keys of the minutes since their cursor. Runs that finish in different minutes never
+ * write the same key, so an overlapping run cannot drop the events of another.
+ */
+async function readMinute(env: Env, minute: number): Promise<StreamEvent[]> {
+  return (await readJson<StreamEvent[]>(env, `${STREAM_EVENTS_PREFIX}${minute}`)) ?? [];
+}
+
+/**
+ * Appends a `result` event for every check of one run, and a `transition` event before it
+ * when the site's status changed since its previous result. The caller saves `aggregates`
+ * once the run is recorded.
+ */
+export async function recordStreamEvents(env: Env, aggregates: RunAggregates, results: { site: string; data: UptimeData }[]): Promise<void> {
+  if (results.length === 0) {
+    return;
+  }
+
+  try {
+    const minute = minuteStart(Date.now());
+    const events = await readMinute(env, minute);
+    const statuses = (aggregates.statuses ??= {});
+    let nextId = events.length > 0 ? events[events.length - 1].id + 1 : minute * IDS_PER_MS;
+    for (const { site, data } of results) {
+      const previous = statuses[site];
+      if (previous !== undefined && previous !== data.status) {
+        events.push({ id: nextId++, type: 'transition', site, from: previous, data });
+      }
+      events.push({ id: nextId++, type: 'result', site, data });
+      statuses[site] = data.status;
+    }
+
+    // KV keeps the key a minute past the retention window so streams stop reading it first
+    await env.UPTIME_KV.put(`${STREAM_EVENTS_PREFIX}${minute}`, JSON.stringify(events), {
+      expirationTtl: (STREAM_RETENTION + MINUTE) / 1000
+    });
+  } catch (error) {
+    console.error('Failed to record stream events:', error);
+  }
+}
+
+const formatEvent = (id: number, event: string, data: unknown) => `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+function formatStreamEvent(event: StreamEvent): string {
+  const { id, type, ...payload } = event;
+  return formatEvent(id, type, payload);
+}
+
+async function snapshot(env: Env, sites: string[], lastId: number): Promise<string> {
+  const statuses: Record<string, UptimeData | null> = {};
+  for (const site of sites) {
+    statuses[site] = await readJson<UptimeData>(env, `current_${site}`);
+  }
+  return formatEvent(lastId, 'snapshot', statuses);
+}
+
+/**
+ * Handles `/api/stream`: Server-Sent Events with a `snapshot` of the current statuses, then
+ * `transition` and `result` events as cron runs record them. Reconnecting with `Last-Event-ID`
+ * (or `?lastEventId=`) resumes after that event, or starts with a new snapshot when it is
+ * older than `STREAM_RETENTION`. `?site=` can be repeated to follow only some monitors.
+ */
+export async function handleStream(request: Request, env: Env, params: URLSearchParams): Promise<Response> {
+  const monitors = (await loadMonitors(env)).map(monitor => monitor.name);
+  const requested = params.getAll('site');
+  const unknown = requested.filter(site => !monitors.includes(site));
+  if (unknown.length > 0) {
+    return errorResponse(`Monitor '${unknown[0]}' not found`, 404);
+  }
+  const sites = requested.length > 0 ? requested : monitors;
+
+  const resumeFrom = request.headers.get('Last-Event-ID') ?? params.get('lastEventId');
+  if (resumeFrom !== null && !/^\d+$/.test(resumeFrom)) {
+    return errorResponse('Last-Event-ID must be an event id from this stream', 400);
+  }
+
+  const startedAt = Date.now();
+  const encoder = new TextEncoder();
+  let cursor = resumeFrom === null ? undefined : Number(resumeFrom);
+  let lastWrite = startedAt;
+  let cancelled = false;
+
+  // Everything written after `cursor`, or a snapshot when the stream starts or missed events
+  const nextChunk = async (): Promise<string> => {
+    const current = minuteStart(Date.now());
+    const from = cursor === undefined ? undefined : minuteOfId(cursor + 1);
+    if (from === undefined || from <= current - STREAM_RETENTION || from > current) {
+      const events = await readMinute(env, current);
+      cursor = events.length > 0 ? events[events.length - 1].id : current * IDS_PER_MS - 1;
+      return snapshot(env, sites, cursor);
+    }
+
+    const events: StreamEvent[] = [];
+    for (let minute = from; minute <= current; minute += MINUTE) {
+      events.push(...(await readMinute(env, minute)).filter(event => event.id > cursor!));
+    }
+    // Earlier minutes are complete, so the next poll starts with the current one
+    cursor = Math.max(events.length > 0 ? events[events.length - 1].id : cursor!, current * IDS_PER_MS - 1);
+    return events.filter(event => sites.includes(event.site)).map(formatStreamEvent).join('');
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${RETRY_DELAY}\n\n${await nextChunk()}`));
+    },
+    async pull(controller) {
+      while (!cancelled) {
+        await sleep(POLL_INTERVAL);
+        if (cancelled) {
+          return;
+        }
+
+        const now = Date.now();
+        if (now - startedAt >= STREAM_DURATION) {
+          controller.close();
+          return;
+        }
+
+        let chunk = await nextChunk();
+        if (!chunk && now - lastWrite >= HEARTBEAT_INTERVAL) {
+          chunk = ': heartbeat\n\n';
+        }
+        if (chunk) {
+          lastWrite = now;
+          controller.enqueue(encoder.encode(chunk));
+          return;
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+    }
+  }, { highWaterMark: 0 });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
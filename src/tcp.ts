@@ -0,0 +1,111 @@
+import { connect } from 'cloudflare:sockets';
+import type { TcpCheck, UptimeData } from './types';
+import { isHostname } from './utils';
+
+// Banners and replies are short; stop reading long before a chatty service fills memory
+const MAX_RESPONSE_BYTES = 64 * 1024;
+const MAX_PAYLOAD_LENGTH = 4096;
+
+/**
+ * Reads from the socket until the text contains `expected`, the peer closes the
+ * connection or MAX_RESPONSE_BYTES have been read.
+ */
+async function readUntil(socket: Socket, expected: string): Promise<string> {
+  const reader = socket.readable.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+
+  try {
+    while (!text.includes(expected) && bytes < MAX_RESPONSE_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      bytes += value.byteLength;
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return text;
+}
+
+/**
+ * Opens a TCP connection to the monitor's host and port, optionally writes `send` and
+ * checks that the banner or reply contains `expect`. The whole exchange shares the timeout.
+ */
+export async function probeTcp(site: TcpCheck): Promise<UptimeData> {
+  const start = Date.now();
+  const timestamp = Date.now();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(`Timed out after ${site.timeout} ms`)), site.timeout);
+  });
+  let socket: Socket | undefined;
+  let data: UptimeData;
+
+  try {
+    socket = connect({ hostname: site.host, port: site.port });
+    await Promise.race([socket.opened, timeout]);
+    const connectTime = Date.now() - start;
+
+    if (site.send !== undefined) {
+      const writer = socket.writable.getWriter();
+      await Promise.race([writer.write(new TextEncoder().encode(site.send)), timeout]);
+      writer.releaseLock();
+    }
+
+    let error: string | undefined;
+    if (site.expect !== undefined) {
+      const response = await Promise.race([readUntil(socket, site.expect), timeout]);
+      if (!response.includes(site.expect)) {
+        error = `Response did not contain '${site.expect}'`;
+      }
+    }
+
+    data = {
+      status: error ? 'down' : 'up',
+      responseTime: Date.now() - start,
+      connectTime,
+      timestamp
+    };
+    if (error) {
+      data.error = error;
+    }
+  } catch (error: any) {
+    data = {
+      status: 'down',
+      error: error.message,
+      responseTime: Date.now() - start,
+      timestamp
+    };
+  } finally {
+    clearTimeout(timeoutId);
+    socket?.close().catch(() => undefined);
+  }
+
+  return data;
+}
+
+export function validateTcpOptions(raw: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (!isHostname(raw.host)) {
+    errors.push('host must be a hostname or IPv4 address');
+  }
+
+  if (typeof raw.port !== 'number' || !Number.isInteger(raw.port) || raw.port < 1 || raw.port > 65535) {
+    errors.push('port must be an integer between 1 and 65535');
+  }
+
+  for (const field of ['send', 'expect'] as const) {
+    const value = raw[field];
+    if (value !== undefined && (typeof value !== 'string' || value.length === 0 || value.length > MAX_PAYLOAD_LENGTH)) {
+      errors.push(`${field} must be a string of 1-${MAX_PAYLOAD_LENGTH} characters`);
+    }
+  }
+
+  return errors;
+}
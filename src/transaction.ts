@@ -0,0 +1,278 @@
+import type { TransactionCheck, UptimeData } from './types';
+import { evaluateAssertions, readJsonPath, validateAssertions, type ContentAssertion } from './assertions';
+import { isExpectedStatus, validateProbeOptions, type ExpectedStatus } from './probe';
+
+export type Extraction =
+  | { name: string; type: 'jsonPath'; path: string }
+  | { name: string; type: 'header'; header: string }
+  | { name: string; type: 'regex'; pattern: string; flags?: string; group?: number };
+
+export interface TransactionStep {
+  name?: string;
+  /** May reference variables as `{{name}}`, as may header values and the body. */
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  expectedStatus?: ExpectedStatus[];
+  assertions?: ContentAssertion[];
+  /** Values to read from the response into variables for the following steps. */
+  extract?: Extraction[];
+}
+
+export interface StepResult {
+  name: string;
+  statusCode?: number;
+  responseTime: number;
+  error?: string;
+}
+
+const METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+const EXTRACTION_TYPES: Extraction['type'][] = ['jsonPath', 'header', 'regex'];
+const VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_STEPS = 10;
+
+/**
+ * Substitutes `{{name}}` references. Unlike alert templates an unknown variable is an
+ * error, since sending a request with a blank token would only fail in a confusing way.
+ */
+export function interpolate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      throw new Error(`Unknown variable '${name}'`);
+    }
+    return variables[name];
+  });
+}
+
+function extract(extraction: Extraction, response: Response, body: string): string {
+  switch (extraction.type) {
+    case 'header': {
+      const value = response.headers.get(extraction.header);
+      if (value === null) {
+        throw new Error(`Header ${extraction.header} not found for '${extraction.name}'`);
+      }
+      return value;
+    }
+    case 'regex': {
+      // Without a group the first capture is used, or the whole match if there is none
+      const match = new RegExp(extraction.pattern, extraction.flags).exec(body);
+      const value = match?.[extraction.group ?? (match.length > 1 ? 1 : 0)];
+      if (value === undefined) {
+        throw new Error(`/${extraction.pattern}/ did not match for '${extraction.name}'`);
+      }
+      return value;
+    }
+    case 'jsonPath': {
+      let json: unknown;
+      try {
+        json = JSON.parse(body);
+      } catch {
+        throw new Error(`Response is not JSON, cannot extract '${extraction.name}'`);
+      }
+      const result = readJsonPath(json, extraction.path);
+      if (!result.found) {
+        throw new Error(`JSON path ${extraction.path} not found for '${extraction.name}'`);
+      }
+      return typeof result.value === 'string' ? result.value : JSON.stringify(result.value);
+    }
+  }
+}
+
+async function runStep(step: TransactionStep, variables: Record<string, string>, signal: AbortSignal): Promise<StepResult> {
+  const method = step.method ?? 'GET';
+  const result: StepResult = { name: step.name ?? `${method} ${step.url}`, responseTime: 0 };
+  const start = Date.now();
+
+  try {
+    const headers = Object.fromEntries(Object.entries(step.headers ?? {}).map(([name, value]) => [name, interpolate(value, variables)]));
+    const response = await fetch(interpolate(step.url, variables), {
+      method,
+      headers: { 'User-Agent': 'Mozilla/5.0 (compatible; TeyvatArchive-Monitor/1.0)', ...headers },
+      body: step.body === undefined ? undefined : interpolate(step.body, variables),
+      signal
+    });
+    const body = await response.text();
+    result.statusCode = response.status;
+    result.responseTime = Date.now() - start;
+
+    if (!isExpectedStatus(response, step.expectedStatus)) {
+      result.error = `HTTP ${response.status}`;
+      return result;
+    }
+
+    const failedAssertion = step.assertions?.length ? await evaluateAssertions(step.assertions, new Response(body)) : undefined;
+    if (failedAssertion) {
+      result.error = `Assertion failed: ${failedAssertion.message}`;
+      return result;
+    }
+
+    for (const extraction of step.extract ?? []) {
+      variables[extraction.name] = extract(extraction, response, body);
+    }
+  } catch (error: any) {
+    result.responseTime = Date.now() - start;
+    result.error = error.message;
+  }
+
+  return result;
+}
+
+/**
+ * Runs the steps in order, carrying extracted variables forward, and stops at the first
+ * failing step. The monitor's timeout covers the whole transaction.
+ */
+export async function probeTransaction(site: TransactionCheck): Promise<UptimeData> {
+  const start = Date.now();
+  const timestamp = Date.now();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), site.timeout);
+  const variables = { ...site.variables };
+  const steps: StepResult[] = [];
+
+  try {
+    for (const step of site.steps) {
+      const result = await runStep(step, variables, controller.signal);
+      if (controller.signal.aborted) {
+        result.error = `Timed out after ${site.timeout} ms`;
+      }
+      steps.push(result);
+      if (result.error) {
+        break;
+      }
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  const failedStep = steps.findIndex(step => step.error);
+  const last = steps[steps.length - 1];
+  const data: UptimeData = {
+    status: failedStep === -1 ? 'up' : 'down',
+    responseTime: Date.now() - start,
+    steps,
+    timestamp
+  };
+  if (last.statusCode !== undefined) {
+    data.statusCode = last.statusCode;
+  }
+  if (failedStep !== -1) {
+    data.error = `Step ${failedStep + 1} (${last.name}) failed: ${last.error}`;
+    data.failedStep = failedStep;
+  }
+
+  return data;
+}
+
+function validateExtraction(input: unknown, path: string): string[] {
+  const extraction = (input && typeof input === 'object' && !Array.isArray(input) ? input : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof extraction.name !== 'string' || !VARIABLE_PATTERN.test(extraction.name)) {
+    errors.push(`${path}.name must be a variable name of letters, digits and underscores`);
+  }
+  if (!EXTRACTION_TYPES.includes(extraction.type as Extraction['type'])) {
+    errors.push(`${path}.type must be one of ${EXTRACTION_TYPES.join(', ')}`);
+  } else if (extraction.type === 'jsonPath' && (typeof extraction.path !== 'string' || extraction.path.length === 0)) {
+    errors.push(`${path}.path must be a non-empty string`);
+  } else if (extraction.type === 'header' && (typeof extraction.header !== 'string' || extraction.header.length === 0)) {
+    errors.push(`${path}.header must be a non-empty string`);
+  } else if (extraction.type === 'regex') {
+    const group = extraction.group;
+    let valid =
+      typeof extraction.pattern === 'string' &&
+      (extraction.flags === undefined || typeof extraction.flags === 'string') &&
+      (group === undefined || (typeof group === 'number' && Number.isInteger(group) && group >= 0));
+    if (valid) {
+      try {
+        new RegExp(extraction.pattern as string, extraction.flags as string | undefined);
+      } catch {
+        valid = false;
+      }
+    }
+    if (!valid) {
+      errors.push(`${path} must have a valid pattern and a non-negative integer group`);
+    }
+  }
+
+  return errors;
+}
+
+function validateStep(input: unknown, prefix: string): string[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return [`${prefix} must be an object`];
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (raw.name !== undefined && (typeof raw.name !== 'string' || raw.name.length === 0)) {
+    errors.push(`${prefix}.name must be a non-empty string`);
+  }
+
+  let validUrl = typeof raw.url === 'string';
+  if (typeof raw.url === 'string' && !raw.url.includes('{{')) {
+    try {
+      validUrl = ['http:', 'https:'].includes(new URL(raw.url).protocol);
+    } catch {
+      validUrl = false;
+    }
+  }
+  if (!validUrl) {
+    errors.push(`${prefix}.url must be an http or https URL`);
+  }
+
+  if (raw.method !== undefined && !METHODS.includes(raw.method as string)) {
+    errors.push(`${prefix}.method must be one of ${METHODS.join(', ')}`);
+  }
+
+  if (raw.headers !== undefined && (!raw.headers || typeof raw.headers !== 'object' || Array.isArray(raw.headers) || !Object.values(raw.headers).every(value => typeof value === 'string'))) {
+    errors.push(`${prefix}.headers must map header names to strings`);
+  }
+
+  if (raw.body !== undefined && (typeof raw.body !== 'string' || ['GET', 'HEAD'].includes((raw.method as string | undefined) ?? 'GET'))) {
+    errors.push(`${prefix}.body must be a string and cannot be sent with GET or HEAD`);
+  }
+
+  if (raw.expectedStatus !== undefined) {
+    errors.push(...validateProbeOptions({ expectedStatus: raw.expectedStatus }).map(error => `${prefix}.${error}`));
+  }
+
+  if (raw.assertions !== undefined) {
+    errors.push(...validateAssertions(raw.assertions).map(error => `${prefix}.${error}`));
+  }
+
+  if (raw.extract !== undefined) {
+    if (!Array.isArray(raw.extract)) {
+      errors.push(`${prefix}.extract must be an array`);
+    } else {
+      raw.extract.forEach((extraction, index) => errors.push(...validateExtraction(extraction, `${prefix}.extract[${index}]`)));
+    }
+  }
+
+  return errors;
+}
+
+export function validateTransactionOptions(raw: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0 || raw.steps.length > MAX_STEPS) {
+    errors.push(`steps must be an array of 1-${MAX_STEPS} steps`);
+  } else {
+    raw.steps.forEach((step, index) => errors.push(...validateStep(step, `steps[${index}]`)));
+  }
+
+  if (raw.variables !== undefined) {
+    const variables = raw.variables as Record<string, unknown> | null;
+    const valid =
+      !!variables &&
+      typeof variables === 'object' &&
+      !Array.isArray(variables) &&
+      Object.entries(variables).every(([name, value]) => VARIABLE_PATTERN.test(name) && typeof value === 'string');
+    if (!valid) {
+      errors.push('variables must map variable names to strings');
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,120 @@
+import type { AssertionFailure, ContentAssertion } from './assertions';
+import type { ConfirmationPolicy } from './confirmation';
+import type { DnsRecordType } from './dns';
+import type { DegradedPolicy, ExpectedStatus, RedirectMode } from './probe';
+import type { StepResult, TransactionStep } from './transaction';
+
+export interface Env {
+  UPTIME_KV: KVNamespace;
+  /** Secret admin API key, used to create the first keys stored in KV. */
+  ADMIN_API_KEY?: string;
+  /** Set to 'false' to require a key with the `read` scope on the public read routes too. */
+  ANONYMOUS_READS?: string;
+}
+
+interface BaseCheck {
+  name: string;
+  paused?: boolean;
+  /** Minutes between checks; every 5 minutes when omitted. */
+  interval?: number;
+  /**
+   * Set when the monitor is created through the API; uptime before it is not counted. Other
+   * monitors count from their first check, which is stored as `first_check_<name>`.
+   */
+  createdAt?: number;
+  confirmation?: ConfirmationPolicy;
+  degraded?: DegradedPolicy;
+  /** Monitors this one needs; while one of them is down, this monitor's outages are attributed to it. */
+  dependsOn?: string[];
+}
+
+/** Monitors the worker probes itself; `timeout` bounds a single probe in milliseconds. */
+interface ProbeCheck extends BaseCheck {
+  timeout: number;
+}
+
+/** Monitors without a `type` are HTTP monitors. */
+export interface HttpCheck extends ProbeCheck {
+  type?: 'http';
+  url: string;
+  assertions?: ContentAssertion[];
+  expectedStatus?: ExpectedStatus[];
+  redirect?: RedirectMode;
+  redirectTo?: string;
+}
+
+export interface TcpCheck extends ProbeCheck {
+  type: 'tcp';
+  host: string;
+  port: number;
+  /** Written to the socket once it is open. */
+  send?: string;
+  /** Text the banner or the response to `send` must contain. */
+  expect?: string;
+}
+
+export interface DnsCheck extends ProbeCheck {
+  type: 'dns';
+  host: string;
+  recordType: DnsRecordType;
+  /** DNS-over-HTTPS endpoint speaking the JSON API; Cloudflare's resolver when omitted. */
+  resolver?: string;
+  /** Values that must all be in the answer; any non-empty answer passes when omitted. */
+  expected?: string[];
+}
+
+/** An ordered list of HTTP requests that pass values to each other, such as a login flow. */
+export interface TransactionCheck extends ProbeCheck {
+  type: 'transaction';
+  steps: TransactionStep[];
+  /** Initial variables available to every step. */
+  variables?: Record<string, string>;
+}
+
+/** Receives heartbeats at `/api/push/:token` from cron jobs and workers instead of probing anything. */
+export interface PushCheck extends BaseCheck {
+  type: 'push';
+  /** Secret part of the heartbeat URL. */
+  token: string;
+  /** Expected time between heartbeats in milliseconds. */
+  heartbeatInterval: number;
+  /** Extra time a heartbeat may be late before the monitor is down, in milliseconds. */
+  gracePeriod?: number;
+}
+
+export type SiteCheck = HttpCheck | TcpCheck | DnsCheck | TransactionCheck | PushCheck;
+
+/** Outcome of probing a site; `degraded` means it answered correctly but too slowly. */
+export type CheckStatus = 'up' | 'degraded' | 'down';
+
+export interface UptimeData {
+  /** `maintenance` while a maintenance window covers the site; `observedStatus` then holds the probe result. */
+  status: CheckStatus | 'maintenance';
+  responseTime: number;
+  /** Time to open the connection, for TCP monitors. */
+  connectTime?: number;
+  /** Records returned for DNS monitors, normalized. */
+  resolved?: string[];
+  /** Per-step results of transaction monitors, up to and including the failing step. */
+  steps?: StepResult[];
+  /** Index of the step a transaction failed at. */
+  failedStep?: number;
+  /** Time of the last heartbeat, for push monitors. */
+  lastHeartbeat?: number;
+  /** Message sent with the last heartbeat, for push monitors. */
+  message?: string;
+  statusCode?: number;
+  error?: string;
+  failedAssertion?: AssertionFailure;
+  finalUrl?: string;
+  redirects?: string[];
+  attempts?: number;
+  observedStatus?: CheckStatus;
+  suspected?: boolean;
+  consecutive?: number;
+  /** Root-cause monitor when the site is down because something it depends on is down. */
+  upstream?: string;
+  /** Id of the maintenance window the check ran in. */
+  maintenance?: string;
+  timestamp: number;
+}
@@ -0,0 +1,192 @@
+import type { Env, SiteCheck, UptimeData } from './types';
+import { errorResponse, jsonResponse, parseTimeParam } from './http';
+import { oldestHistoryEntry } from './history';
+import { INCIDENT_TTL, queryIncidents, type Incident } from './incidents';
+import { loadMaintenanceWindows, maintenanceIntervals, type MaintenanceWindow } from './maintenance';
+import { loadMonitors } from './monitors';
+import { readJson } from './storage';
+
+export interface UptimeReport {
+  site: string;
+  from: number;
+  to: number;
+  /** Portion of the window the monitor existed for outside maintenance; other time is not counted. */
+  monitoredMs: number;
+  maintenanceMs: number;
+  uptimePercent: number | null;
+  downtimeMs: number;
+  /** Time spent degraded; part of `downtimeMs` only when the monitor's policy does not count it as up. */
+  degradedMs: number;
+  outages: number;
+  /** Mean time to recovery across outages resolved inside the window. */
+  mttrMs: number | null;
+  /** Mean time between failures: monitored uptime divided by the number of outages. */
+  mtbfMs: number | null;
+}
+
+export const UPTIME_WINDOWS: Record<string, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000
+};
+
+const overlapMs = (start: number, end: number, intervals: [number, number][]) =>
+  intervals.reduce((total, [from, to]) => total + Math.max(0, Math.min(end, to) - Math.max(start, from)), 0);
+
+const firstCheckKey = (site: string) => `first_check_${site}`;
+
+/**
+ * Stores when a monitor that was not created through the API was first checked, unless that
+ * is already known. Monitors that were checked before this was recorded start at their
+ * oldest history entry instead.
+ */
+export async function recordFirstCheck(env: Env, site: SiteCheck, data: UptimeData): Promise<void> {
+  if (site.createdAt !== undefined || (await env.UPTIME_KV.get(firstCheckKey(site.name)))) {
+    return;
+  }
+  const oldest = await oldestHistoryEntry(env, site.name, data.timestamp);
+  await env.UPTIME_KV.put(firstCheckKey(site.name), String(Math.min(oldest?.timestamp ?? data.timestamp, data.timestamp)));
+}
+
+/**
+ * Fills in `createdAt` from the first check for monitors that were not created through the
+ * API, so the time before they were monitored is not counted as uptime.
+ */
+export async function withStartTime(env: Env, site: SiteCheck): Promise<SiteCheck> {
+  if (site.createdAt !== undefined) {
+    return site;
+  }
+  const firstCheck = await readJson<number>(env, firstCheckKey(site.name));
+  return firstCheck === null ? site : { ...site, createdAt: firstCheck };
+}
+
+/**
+ * Computes uptime from the site's incidents, which are opened and closed on confirmed
+ * status transitions, so the sparse history sampling does not affect the result.
+ * Time inside maintenance windows counts as neither uptime nor downtime, and degraded
+ * periods count as uptime unless the monitor's degraded policy says otherwise.
+ * Only time since the monitor's `createdAt` and within the incident retention is counted,
+ * so a monitor without a start time has no uptime to report.
+ */
+export function computeUptime(
+  site: SiteCheck,
+  incidents: Incident[],
+  from: number,
+  to: number,
+  now = Date.now(),
+  maintenance: MaintenanceWindow[] = []
+): UptimeReport {
+  const start = Math.min(Math.max(from, site.createdAt ?? to, now - INCIDENT_TTL * 1000), to);
+  const excluded = maintenanceIntervals(maintenance, site.name, start, to);
+  const maintenanceMs = overlapMs(start, to, excluded);
+  const monitoredMs = to - start - maintenanceMs;
+
+  const degradedIsUp = site.degraded?.countsAsUp ?? true;
+  let downtimeMs = 0;
+  let degradedMs = 0;
+  let outages = 0;
+  const recoveries: number[] = [];
+
+  for (const incident of incidents) {
+    const end = incident.resolvedAt ?? now;
+    const overlapStart = Math.max(incident.startedAt, start);
+    const overlapEnd = Math.min(end, to);
+    if (overlapEnd <= overlapStart) {
+      continue;
+    }
+
+    const outageMs = overlapEnd - overlapStart - overlapMs(overlapStart, overlapEnd, excluded);
+    if (outageMs <= 0) {
+      continue;
+    }
+    if (incident.severity === 'degraded') {
+      degradedMs += outageMs;
+      if (degradedIsUp) {
+        continue;
+      }
+    }
+
+    downtimeMs += outageMs;
+    outages++;
+    if (incident.resolvedAt !== undefined && incident.resolvedAt <= to) {
+      recoveries.push(incident.resolvedAt - incident.startedAt);
+    }
+  }
+
+  const uptimeMs = monitoredMs - downtimeMs;
+
+  return {
+    site: site.name,
+    from,
+    to,
+    monitoredMs,
+    maintenanceMs,
+    uptimePercent: monitoredMs > 0 ? Math.floor((uptimeMs / monitoredMs) * 1e6) / 1e4 : null,
+    downtimeMs,
+    degradedMs,
+    outages,
+    mttrMs: recoveries.length > 0 ? Math.round(recoveries.reduce((sum, ms) => sum + ms, 0) / recoveries.length) : null,
+    mtbfMs: outages > 0 ? Math.round(uptimeMs / outages) : null
+  };
+}
+
+/**
+ * Resolves `window` or `from`/`to` query parameters into a time range, or an error message.
+ */
+export function parseWindow(params: URLSearchParams, now = Date.now(), fallback = '24h'): { from: number; to: number } | string {
+  const window = params.get('window');
+  const from = parseTimeParam(params.get('from'));
+  const to = parseTimeParam(params.get('to'));
+
+  if (from === undefined || to === undefined) {
+    return 'from and to must be epoch milliseconds or ISO 8601 dates';
+  }
+
+  if (window !== null) {
+    if (from !== null || to !== null) {
+      return 'window cannot be combined with from and to';
+    }
+    if (!UPTIME_WINDOWS[window]) {
+      return `window must be one of ${Object.keys(UPTIME_WINDOWS).join(', ')}`;
+    }
+    return { from: now - UPTIME_WINDOWS[window], to: now };
+  }
+
+  if (from === null) {
+    if (to !== null) {
+      return 'to requires from';
+    }
+    return { from: now - UPTIME_WINDOWS[fallback], to: now };
+  }
+
+  const end = Math.min(to ?? now, now);
+  if (from >= end) {
+    return 'from must be before to and in the past';
+  }
+  return { from, to: end };
+}
+
+export async function getUptime(env: Env, params: URLSearchParams): Promise<Response> {
+  const range = parseWindow(params);
+  if (typeof range === 'string') {
+    return errorResponse(range, 400);
+  }
+
+  const siteName = params.get('site');
+  const monitors = await loadMonitors(env);
+  const sites = siteName ? monitors.filter(monitor => monitor.name === siteName) : monitors;
+
+  if (siteName && sites.length === 0) {
+    return errorResponse(`Monitor '${siteName}' not found`, 404);
+  }
+
+  const maintenance = await loadMaintenanceWindows(env);
+  const reports: UptimeReport[] = [];
+  for (const site of sites) {
+    const incidents = await queryIncidents(env, { site: site.name, from: range.from, to: range.to });
+    reports.push(computeUptime(await withStartTime(env, site), incidents, range.from, range.to, Date.now(), maintenance));
+  }
+
+  return jsonResponse(siteName ? reports[0] : reports);
+}
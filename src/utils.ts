@@ -0,0 +1,44 @@
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Formats a duration as the two most significant units, e.g. `2d 3h`, `1h 5m` or `45s`.
+ */
+export function formatDuration(ms: number): string {
+  const units: [string, number][] = [
+    ['d', 24 * 60 * 60 * 1000],
+    ['h', 60 * 60 * 1000],
+    ['m', 60 * 1000],
+    ['s', 1000]
+  ];
+
+  const parts: string[] = [];
+  let remaining = Math.max(0, ms);
+
+  for (const [label, size] of units) {
+    const value = Math.floor(remaining / size);
+    remaining -= value * size;
+    if (value > 0 || parts.length > 0) {
+      parts.push(`${value}${label}`);
+    }
+    if (parts.length === 2) {
+      break;
+    }
+  }
+
+  return parts.filter(part => !part.startsWith('0')).join(' ') || '0s';
+}
+
+export const formatTime = (timestamp: number) => new Date(timestamp).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+export const isHostname = (value: unknown): value is string => typeof value === 'string' && HOSTNAME_PATTERN.test(value);
+
+export function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
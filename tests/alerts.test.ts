@@ -0,0 +1,276 @@
+/// <reference types="node" />
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import worker, { checkSite, type Env, type SiteCheck } from '../src/index';
+import { buildAlertRequest, renderTemplate, validateAlertChannel, type AlertPayload } from '../src/alerts';
+import { ADMIN_HEADERS, TEST_ADMIN_KEY, createExecutionContext, createMemoryKV } from './testUtils';
+
+interface ReceivedAlert {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+// Local webhook receiver so deliveries go over real HTTP
+const startReceiver = async (statuses: number[] = []) => {
+  const received: ReceivedAlert[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ path: req.url ?? '', headers: req.headers, body: JSON.parse(body) });
+      res.statusCode = statuses.shift() ?? 204;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+const originalFetch = globalThis.fetch;
+
+describe('alerting', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let mockEnv: Env;
+  let mockSite: SiteCheck;
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+  const siteResponses = jest.fn();
+
+  beforeEach(() => {
+    kv = createMemoryKV();
+    mockEnv = { UPTIME_KV: kv, ADMIN_API_KEY: TEST_ADMIN_KEY };
+    mockSite = { name: 'test-site', url: 'https://example.com', timeout: 5000 };
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    // Monitored sites are mocked, alert deliveries go to the local receiver
+    globalThis.fetch = jest.fn((input: RequestInfo | URL, init?: RequestInit) => {
+      const url = input instanceof Request ? input.url : String(input);
+      return url.startsWith('https://example.com') ? siteResponses(url, init) : originalFetch(input, init);
+    }) as typeof fetch;
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    jest.restoreAllMocks();
+    await receiver?.close();
+  });
+
+  const addChannels = (channels: unknown[]) => kv.store.set('alert_channels', JSON.stringify(channels));
+
+  it('should alert every channel type when a site goes down and recovers', async () => {
+    receiver = await startReceiver();
+    addChannels([
+      { id: 'discord', type: 'discord', url: `${receiver.url}/discord` },
+      { id: 'slack', type: 'slack', url: `${receiver.url}/slack` },
+      { id: 'generic', type: 'webhook', url: `${receiver.url}/generic` },
+    ]);
+
+    siteResponses.mockResolvedValueOnce({ ok: true, status: 200 });
+    await checkSite(mockSite, mockEnv);
+    expect(receiver.received).toHaveLength(0);
+
+    siteResponses.mockResolvedValueOnce({ ok: false, status: 503 });
+    await checkSite(mockSite, mockEnv);
+
+    expect(receiver.received.map(alert => alert.path).sort()).toEqual(['/discord', '/generic', '/slack']);
+    const byPath = (path: string) => receiver.received.find(alert => alert.path === path)!.body;
+    expect(byPath('/discord').content).toBe('🔴 **test-site** is down: HTTP 503');
+    expect(byPath('/slack').text).toBe('🔴 **test-site** is down: HTTP 503');
+    expect(byPath('/generic')).toMatchObject({ event: 'down', site: 'test-site', status: 'down', previousStatus: 'up', statusCode: 503 });
+
+    receiver.received.length = 0;
+    const downAt = JSON.parse(kv.store.get('last_transition_test-site')!).timestamp;
+    const originalDateNow = Date.now;
+    Date.now = jest.fn().mockReturnValue(downAt + 65 * 60 * 1000);
+    try {
+      siteResponses.mockResolvedValueOnce({ ok: true, status: 200 });
+      await checkSite(mockSite, mockEnv);
+    } finally {
+      Date.now = originalDateNow;
+    }
+
+    expect(byPath('/slack').text).toBe('🟢 **test-site** is back up after 1h 5m');
+    expect(byPath('/generic')).toMatchObject({ event: 'up', since: downAt, durationMs: 65 * 60 * 1000 });
+  });
+
+  it('should respect channel site and event filters and custom templates', async () => {
+    receiver = await startReceiver();
+    addChannels([
+      { id: 'other-site', type: 'slack', url: `${receiver.url}/other`, sites: ['main'] },
+      { id: 'recoveries', type: 'slack', url: `${receiver.url}/recoveries`, events: ['up'] },
+      { id: 'custom', type: 'slack', url: `${receiver.url}/custom`, templates: { down: '{{site}} failed with {{error}}' } },
+    ]);
+    kv.store.set('last_history_test-site', JSON.stringify({ status: 'up', responseTime: 1, timestamp: Date.now() }));
+
+    siteResponses.mockRejectedValueOnce(new Error('Network error'));
+    await checkSite(mockSite, mockEnv);
+
+    expect(receiver.received).toEqual([expect.objectContaining({ path: '/custom', body: { text: 'test-site failed with Network error' } })]);
+  });
+
+  it('should retry failed deliveries without failing the check', async () => {
+    receiver = await startReceiver([500]);
+    addChannels([{ id: 'flaky', type: 'slack', url: receiver.url }]);
+    kv.store.set('last_history_test-site', JSON.stringify({ status: 'up', responseTime: 1, timestamp: Date.now() }));
+
+    siteResponses.mockResolvedValueOnce({ ok: false, status: 500 });
+    await checkSite(mockSite, mockEnv);
+
+    expect(receiver.received).toHaveLength(2);
+    expect(JSON.parse(kv.store.get('current_test-site')!).status).toBe('down');
+  });
+
+  it('should not fail the check when the receiver is unreachable', async () => {
+    receiver = await startReceiver();
+    await receiver.close();
+    addChannels([{ id: 'gone', type: 'discord', url: receiver.url }]);
+    kv.store.set('last_history_test-site', JSON.stringify({ status: 'up', responseTime: 1, timestamp: Date.now() }));
+
+    siteResponses.mockResolvedValueOnce({ ok: false, status: 500 });
+    await expect(checkSite(mockSite, mockEnv)).resolves.toMatchObject({ status: 'down' });
+
+    expect(console.error).toHaveBeenCalledWith('Giving up on alert delivery to gone for test-site (down)');
+    expect(JSON.parse(kv.store.get('current_test-site')!).status).toBe('down');
+  });
+
+  it('should send alerts after the check when given an execution context', async () => {
+    receiver = await startReceiver();
+    addChannels([{ id: 'slack', type: 'slack', url: receiver.url }]);
+    kv.store.set('last_history_test-site', JSON.stringify({ status: 'up', responseTime: 1, timestamp: Date.now() }));
+    const ctx = createExecutionContext();
+
+    siteResponses.mockResolvedValueOnce({ ok: false, status: 503 });
+    await expect(checkSite(mockSite, mockEnv, undefined, ctx)).resolves.toMatchObject({ status: 'down' });
+    expect(receiver.received).toHaveLength(0);
+
+    await ctx.settle();
+    expect(receiver.received).toEqual([expect.objectContaining({ body: { text: '🔴 **test-site** is down: HTTP 503' } })]);
+  });
+
+  it('should time out deliveries to receivers that never answer', async () => {
+    jest.useFakeTimers({ now: Date.now() });
+    try {
+      addChannels([{ id: 'stalled', type: 'webhook', url: 'https://example.com/hook' }]);
+      kv.store.set('last_history_test-site', JSON.stringify({ status: 'up', responseTime: 1, timestamp: Date.now() }));
+      siteResponses.mockImplementation((url: string, init?: RequestInit) =>
+        url.endsWith('/hook')
+          ? new Promise((_, reject) => init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason)))
+          : Promise.resolve({ ok: false, status: 503 })
+      );
+
+      const check = checkSite(mockSite, mockEnv);
+      await jest.advanceTimersByTimeAsync(3 * 10000 + 500 + 1000);
+      await expect(check).resolves.toMatchObject({ status: 'down' });
+
+      expect(console.warn).toHaveBeenCalledWith('Alert delivery to stalled failed: timed out after 10000 ms (attempt 3/3)');
+      expect(console.error).toHaveBeenCalledWith('Giving up on alert delivery to stalled for test-site (down)');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  describe('buildAlertRequest', () => {
+    const payload: AlertPayload = {
+      event: 'down',
+      site: 'main',
+      url: 'https://example.com',
+      status: 'down',
+      previousStatus: 'up',
+      responseTime: 120,
+      timestamp: 1234567890,
+      message: 'main is down',
+    };
+
+    it('should sign generic webhooks with HMAC-SHA256', async () => {
+      const originalDateNow = Date.now;
+      Date.now = jest.fn().mockReturnValue(1234567890);
+      try {
+        const request = await buildAlertRequest({ id: 'generic', type: 'webhook', url: 'https://hooks.example.com', secret: 'shh' }, payload);
+        const body = await request.text();
+
+        const key = await crypto.subtle.importKey('raw', new TextEncoder().encode('shh'), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+        const signature = request.headers.get('X-Monitor-Signature')!.replace('sha256=', '');
+        const bytes = new Uint8Array(signature.match(/../g)!.map(hex => parseInt(hex, 16)));
+
+        expect(request.headers.get('X-Monitor-Timestamp')).toBe('1234567890');
+        expect(await crypto.subtle.verify('HMAC', key, bytes, new TextEncoder().encode(`1234567890.${body}`))).toBe(true);
+      } finally {
+        Date.now = originalDateNow;
+      }
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should substitute known variables and blank unknown ones', () => {
+      expect(renderTemplate('{{site}} is {{ status }}{{missing}}', { site: 'main', status: 'down' })).toBe('main is down');
+    });
+  });
+
+  describe('validateAlertChannel', () => {
+    it('should reject invalid channels', () => {
+      const { errors } = validateAlertChannel({ id: 'Bad Id', type: 'email', url: 'mailto:me@example.com', secret: 1, events: ['sideways'] });
+
+      expect(errors).toHaveLength(5);
+    });
+  });
+
+  describe('/api/alerts/channels', () => {
+    const request = (path: string, method = 'GET', body?: unknown) =>
+      new Request(`https://monitor.example.com${path}`, { method, body: body === undefined ? undefined : JSON.stringify(body), headers: ADMIN_HEADERS });
+
+    it('should create channels and never return secrets', async () => {
+      const created = await worker.fetch(
+        request('/api/alerts/channels', 'POST', { id: 'generic', type: 'webhook', url: 'https://hooks.example.com', secret: 'shh' }),
+        mockEnv
+      );
+      expect(created.status).toBe(201);
+      expect(await created.json()).toEqual({ id: 'generic', type: 'webhook', url: 'https://hooks.example.com', secret: '********' });
+
+      const list = await worker.fetch(request('/api/alerts/channels'), mockEnv);
+      expect(JSON.stringify(await list.json())).not.toContain('shh');
+    });
+
+    it('should keep the stored secret when updating without one', async () => {
+      addChannels([{ id: 'generic', type: 'webhook', url: 'https://hooks.example.com', secret: 'shh' }]);
+
+      const response = await worker.fetch(
+        request('/api/alerts/channels/generic', 'PUT', { type: 'webhook', url: 'https://hooks2.example.com' }),
+        mockEnv
+      );
+
+      expect(response.status).toBe(200);
+      expect(JSON.parse(kv.store.get('alert_channels')!)).toEqual([
+        { id: 'generic', type: 'webhook', url: 'https://hooks2.example.com', secret: 'shh' },
+      ]);
+    });
+
+    it('should send a test alert', async () => {
+      receiver = await startReceiver();
+      addChannels([{ id: 'slack', type: 'slack', url: receiver.url }]);
+
+      const response = await worker.fetch(request('/api/alerts/channels/slack/test', 'POST'), mockEnv);
+
+      expect(await response.json()).toEqual({ delivered: true });
+      expect(receiver.received[0].body.text).toBe('🔴 **test** is down: This is a test alert');
+    });
+
+    it('should delete channels', async () => {
+      addChannels([{ id: 'slack', type: 'slack', url: 'https://hooks.slack.com/x' }]);
+
+      const response = await worker.fetch(request('/api/alerts/channels/slack', 'DELETE'), mockEnv);
+
+      expect(response.status).toBe(204);
+      expect(JSON.parse(kv.store.get('alert_channels')!)).toEqual([]);
+      expect((await worker.fetch(request('/api/alerts/channels/slack'), mockEnv)).status).toBe(404);
+    });
+  });
+});
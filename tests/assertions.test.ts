@@ -0,0 +1,109 @@
+import { evaluateAssertions, readJsonPath, validateAssertions } from '../src/assertions';
+
+describe('content assertions', () => {
+  describe('readJsonPath', () => {
+    const document = { status: 'ok', checks: { db: { healthy: true } }, items: [{ name: 'first' }] };
+
+    it('should resolve dotted, indexed and quoted paths', () => {
+      expect(readJsonPath(document, '$.status')).toEqual({ found: true, value: 'ok' });
+      expect(readJsonPath(document, 'items[0].name')).toEqual({ found: true, value: 'first' });
+      expect(readJsonPath(document, '$.checks["db"].healthy')).toEqual({ found: true, value: true });
+    });
+
+    it('should report missing paths', () => {
+      expect(readJsonPath(document, '$.missing')).toEqual({ found: false });
+      expect(readJsonPath(document, '$.status.nested')).toEqual({ found: false });
+      expect(readJsonPath(undefined, '$.status')).toEqual({ found: false });
+    });
+  });
+
+  describe('evaluateAssertions', () => {
+    it('should pass when every assertion holds', async () => {
+      const response = new Response(JSON.stringify({ status: 'ok', version: 3 }));
+
+      const failure = await evaluateAssertions(
+        [
+          { type: 'contains', value: '"ok"' },
+          { type: 'notContains', value: 'Internal error' },
+          { type: 'regex', pattern: 'version":\\s*\\d+' },
+          { type: 'jsonPath', path: '$.status', equals: 'ok' },
+          { type: 'jsonPath', path: '$.version' },
+          { type: 'maxBodySize', bytes: 1024 },
+        ],
+        response
+      );
+
+      expect(failure).toBeUndefined();
+    });
+
+    it('should return the first failing assertion', async () => {
+      const response = new Response(JSON.stringify({ status: 'error' }));
+
+      const failure = await evaluateAssertions(
+        [
+          { type: 'contains', value: 'status' },
+          { type: 'jsonPath', path: '$.status', equals: 'ok' },
+          { type: 'notContains', value: 'error' },
+        ],
+        response
+      );
+
+      expect(failure).toEqual({ index: 1, type: 'jsonPath', message: 'JSON path $.status does not equal "ok"' });
+    });
+
+    it('should fail JSON path assertions on non-JSON bodies', async () => {
+      const failure = await evaluateAssertions([{ type: 'jsonPath', path: '$.status' }], new Response('<html></html>'));
+
+      expect(failure?.message).toBe('JSON path $.status does not exist');
+    });
+
+    it('should measure body size in bytes', async () => {
+      const failure = await evaluateAssertions([{ type: 'maxBodySize', bytes: 3 }], new Response('äää'));
+
+      expect(failure?.type).toBe('maxBodySize');
+    });
+
+    it('should stop reading bodies once they exceed the size limit', async () => {
+      let pulled = 0;
+      const endless = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulled++;
+          controller.enqueue(new Uint8Array(1024));
+        },
+      });
+
+      const failure = await evaluateAssertions([{ type: 'contains', value: 'ok' }, { type: 'maxBodySize', bytes: 4096 }], new Response(endless));
+
+      expect(failure).toEqual({ index: 1, type: 'maxBodySize', message: 'body is larger than 4096 bytes' });
+      expect(pulled).toBeLessThan(10);
+    });
+
+    it('should reject bodies by their declared length without reading them', async () => {
+      const pull = jest.fn();
+      const response = new Response(new ReadableStream({ pull }, { highWaterMark: 0 }), { headers: { 'Content-Length': '10000' } });
+
+      expect((await evaluateAssertions([{ type: 'maxBodySize', bytes: 1000 }], response))?.type).toBe('maxBodySize');
+      expect(pull).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateAssertions', () => {
+    it('should accept valid assertions', () => {
+      expect(
+        validateAssertions([
+          { type: 'contains', value: 'ok' },
+          { type: 'regex', pattern: '^<!doctype', flags: 'i' },
+          { type: 'jsonPath', path: '$.status', equals: 'ok' },
+          { type: 'maxBodySize', bytes: 1000 },
+        ])
+      ).toEqual([]);
+    });
+
+    it('should reject malformed assertions', () => {
+      expect(validateAssertions('contains')).toEqual(['assertions must be an array']);
+      expect(
+        validateAssertions([{ type: 'unknown' }, { type: 'contains', value: '' }, { type: 'regex', pattern: '(' }, { type: 'maxBodySize', bytes: -1 }])
+      ).toHaveLength(4);
+    });
+  });
+});
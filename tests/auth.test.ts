@@ -0,0 +1,197 @@
+import worker, { type Env } from '../src/index';
+import { hasScope, requiredScope } from '../src/auth';
+import { ADMIN_HEADERS, TEST_ADMIN_KEY, createMemoryKV } from './testUtils';
+
+describe('API key authentication', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let env: Env;
+
+  const request = (path: string, method = 'GET', key?: string, body?: unknown) =>
+    worker.fetch(
+      new Request(`https://status.example.com${path}`, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        headers: key ? { Authorization: `Bearer ${key}` } : undefined,
+      }),
+      env
+    );
+
+  const createKey = async (body: unknown) => {
+    const response = await request('/api/keys', 'POST', TEST_ADMIN_KEY, body);
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  beforeEach(() => {
+    kv = createMemoryKV();
+    env = { UPTIME_KV: kv, ADMIN_API_KEY: TEST_ADMIN_KEY };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should serve public read routes anonymously', async () => {
+    expect((await request('/api/status')).status).toBe(200);
+    expect((await request('/api/maintenance')).status).toBe(200);
+    expect((await request('/api/history?site=main')).status).toBe(200);
+  });
+
+  it('should require a key with the read scope on public routes when anonymous reads are off', async () => {
+    env.ANONYMOUS_READS = 'false';
+    const { body } = await createKey({ name: 'dashboard', scopes: ['read'] });
+
+    expect((await request('/api/status')).status).toBe(401);
+    expect((await request('/api/status', 'GET', body.key)).status).toBe(200);
+  });
+
+  it('should reject write requests without a valid key', async () => {
+    const missing = await request('/api/monitors', 'POST', undefined, { name: 'wiki', url: 'https://wiki.example.com' });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect(await missing.json()).toEqual({ error: 'Authentication required' });
+
+    const invalid = await request('/api/monitors', 'POST', 'uk_not-a-key', { name: 'wiki', url: 'https://wiki.example.com' });
+    expect(invalid.status).toBe(401);
+    expect(await invalid.json()).toEqual({ error: 'Invalid API key' });
+
+    expect(kv.store.has('monitors')).toBe(false);
+  });
+
+  it('should protect every management route', async () => {
+    const { body } = await createKey({ name: 'dashboard', scopes: ['read'] });
+    const routes: [string, string][] = [
+      ['/api/alerts/channels', 'GET'],
+      ['/api/alerts/channels', 'POST'],
+      ['/api/alerts/channels/slack', 'PUT'],
+      ['/api/alerts/channels/slack', 'DELETE'],
+      ['/api/alerts/channels/slack/test', 'POST'],
+      ['/api/monitors/main', 'PUT'],
+      ['/api/monitors/main', 'DELETE'],
+      ['/api/maintenance', 'POST'],
+      ['/api/maintenance/deploy', 'PUT'],
+      ['/api/maintenance/deploy', 'DELETE'],
+      ['/api/keys', 'GET'],
+    ];
+    const stored = new Map(kv.store);
+
+    for (const [path, method] of routes) {
+      expect([path, method, (await request(path, method, undefined, method === 'GET' ? undefined : {})).status]).toEqual([path, method, 401]);
+      expect([path, method, (await request(path, method, body.key, method === 'GET' ? undefined : {})).status]).toEqual([path, method, 403]);
+    }
+    expect(kv.store).toEqual(stored);
+  });
+
+  it('should create keys that only grant their scopes and store them hashed', async () => {
+    const created = await createKey({ name: 'deploy pipeline', scopes: ['write:incidents'] });
+
+    expect(created.status).toBe(201);
+    expect(created.body).toEqual({
+      id: expect.any(String),
+      name: 'deploy pipeline',
+      scopes: ['write:incidents'],
+      prefix: created.body.key.slice(0, 9),
+      createdAt: expect.any(Number),
+      key: expect.stringMatching(/^uk_[0-9a-f]{64}$/),
+    });
+    expect(kv.store.get('api_keys')).not.toContain(created.body.key);
+
+    const window = { id: 'deploy', startsAt: Date.now(), endsAt: Date.now() + 60 * 60 * 1000 };
+    expect((await request('/api/maintenance', 'POST', created.body.key, window)).status).toBe(201);
+    expect((await request('/api/monitors', 'GET', created.body.key)).status).toBe(200);
+
+    const forbidden = await request('/api/monitors/main', 'DELETE', created.body.key);
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toEqual({ error: 'Insufficient scope', details: ['DELETE /api/monitors/main requires the write:monitors scope'] });
+    expect((await request('/api/keys', 'GET', created.body.key)).status).toBe(403);
+  });
+
+  it('should list keys without their hashes and revoke them', async () => {
+    const { body } = await createKey({ name: 'ci', scopes: ['write:monitors'] });
+
+    const list = await request('/api/keys', 'GET', TEST_ADMIN_KEY);
+    expect(await list.json()).toEqual([{ id: body.id, name: 'ci', scopes: ['write:monitors'], prefix: body.prefix, createdAt: body.createdAt }]);
+
+    expect((await request(`/api/keys/${body.id}`, 'DELETE', TEST_ADMIN_KEY)).status).toBe(204);
+    expect((await request('/api/monitors/main/pause', 'POST', body.key)).status).toBe(401);
+    expect((await request(`/api/keys/${body.id}`, 'GET', TEST_ADMIN_KEY)).status).toBe(404);
+  });
+
+  it('should reject expired keys', async () => {
+    const now = Date.now();
+    const { body } = await createKey({ name: 'temporary', scopes: ['admin'], expiresAt: now + 1000 });
+    expect((await request('/api/keys', 'GET', body.key)).status).toBe(200);
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 1000);
+    expect((await request('/api/keys', 'GET', body.key)).status).toBe(401);
+  });
+
+  it('should validate new keys', async () => {
+    await expect(createKey({ name: '', scopes: ['root', 'read', 'read'], expiresAt: 1 })).resolves.toEqual({
+      status: 400,
+      body: {
+        error: 'Invalid API key',
+        details: [
+          'name must be a non-empty string of at most 64 characters',
+          'scopes must be a non-empty list of read, write:monitors, write:incidents, admin without duplicates',
+          'expiresAt must be a future timestamp in epoch milliseconds',
+        ],
+      },
+    });
+  });
+
+  it('should answer CORS preflights without a key', async () => {
+    const response = await request('/api/monitors', 'OPTIONS');
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    expect(response.headers.get('Access-Control-Allow-Methods')).toContain('DELETE');
+    expect(response.headers.get('Access-Control-Allow-Headers')).toContain('Authorization');
+  });
+
+  it('should only show monitor secrets to keys that can edit monitors', async () => {
+    const login = {
+      name: 'login',
+      type: 'transaction',
+      timeout: 5000,
+      variables: { password: 'hunter2' },
+      steps: [{ url: 'https://teyvatarchive.online/login', method: 'POST', headers: { Authorization: 'Basic c2VjcmV0' }, body: '{"password":"{{password}}"}' }],
+    };
+    const backup = { name: 'backup', type: 'push', token: 'a-secret-heartbeat-token', heartbeatInterval: 60000 };
+    kv.store.set('monitors', JSON.stringify([login, backup]));
+    const { body } = await createKey({ name: 'dashboard', scopes: ['read'] });
+
+    const redacted: any = await (await request('/api/monitors', 'GET', body.key)).json();
+    expect(redacted).toEqual([
+      { ...login, variables: { password: '********' }, steps: [{ ...login.steps[0], headers: { Authorization: '********' }, body: '********' }] },
+      { ...backup, token: '********' },
+    ]);
+    expect(await (await request('/api/monitors/backup', 'GET', body.key)).json()).toMatchObject({ token: '********' });
+
+    expect(await (await request('/api/monitors', 'GET', TEST_ADMIN_KEY)).json()).toEqual([login, backup]);
+  });
+
+  it('should keep push endpoints on token authentication', async () => {
+    const push = await request('/api/push/not-a-real-token-at-all');
+
+    expect(push.status).toBe(404);
+    expect(await push.json()).toEqual({ error: 'Unknown push token' });
+  });
+
+  it('should map routes to scopes', () => {
+    expect(requiredScope('GET', '/badge/main.svg', env)).toBeNull();
+    expect(requiredScope('GET', '/api/monitors', env)).toBe('read');
+    expect(requiredScope('PUT', '/api/maintenance/deploy', env)).toBe('write:incidents');
+    expect(requiredScope('GET', '/api/alerts/channels', env)).toBe('admin');
+    expect(requiredScope('GET', '/api/keysmith', env)).toBeNull();
+
+    expect(hasScope(['admin'], 'write:monitors')).toBe(true);
+    expect(hasScope(['write:monitors'], 'read')).toBe(true);
+    expect(hasScope(['read'], 'write:incidents')).toBe(false);
+  });
+
+  it('should not accept the admin key when it is not configured', async () => {
+    env = { UPTIME_KV: kv };
+
+    expect((await worker.fetch(new Request('https://status.example.com/api/keys', { headers: ADMIN_HEADERS }), env)).status).toBe(401);
+  });
+});
@@ -0,0 +1,111 @@
+import worker, { type Env, type Incident } from '../src/index';
+import { renderBadge } from '../src/badges';
+import { createMemoryKV, firstChecks } from './testUtils';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1000 * DAY;
+
+describe('badges', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let mockEnv: Env;
+  const originalDateNow = Date.now;
+
+  const badge = async (path: string) => {
+    const response = await worker.fetch(new Request(`https://example.com${path}`), mockEnv);
+    return { response, svg: await response.text() };
+  };
+
+  beforeEach(() => {
+    kv = createMemoryKV(firstChecks(NOW - 100 * DAY));
+    mockEnv = { UPTIME_KV: kv };
+    Date.now = jest.fn().mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    Date.now = originalDateNow;
+  });
+
+  it('should render the current status', async () => {
+    kv.store.set('current_main', JSON.stringify({ status: 'up', responseTime: 120, timestamp: NOW }));
+    kv.store.set('current_api', JSON.stringify({ status: 'down', responseTime: 10000, timestamp: NOW }));
+
+    const up = await badge('/badge/main');
+    const down = await badge('/badge/api?label=Teyvat%20API');
+
+    expect(up.response.headers.get('Content-Type')).toBe('image/svg+xml; charset=utf-8');
+    expect(up.response.headers.get('Cache-Control')).toBe('public, max-age=60, s-maxage=60');
+    expect(up.svg).toContain('aria-label="main: up"');
+    expect(up.svg).toContain('fill="#4c1"');
+    expect(down.svg).toContain('aria-label="Teyvat API: down"');
+    expect(down.svg).toContain('fill="#e05d44"');
+  });
+
+  it('should render uptime with colour thresholds', async () => {
+    const outage: Incident = {
+      id: 'main-1',
+      site: 'main',
+      status: 'resolved',
+      severity: 'down',
+      startedAt: NOW - 2 * DAY,
+      resolvedAt: NOW - 2 * DAY + 3 * 60 * 60 * 1000,
+      cause: {},
+      checks: 36,
+      lastCheckedAt: NOW - 2 * DAY,
+    };
+    kv.store.set(`incident_main_${outage.startedAt}`, JSON.stringify(outage));
+
+    const monthly = await badge('/badge/main/uptime');
+    const weekly = await badge('/badge/main/uptime?window=7d');
+    const clean = await badge('/badge/api/uptime?window=24h');
+
+    expect(monthly.svg).toContain('aria-label="uptime 30d: 99.58%"');
+    expect(monthly.svg).toContain(`fill="#97ca00"`);
+    expect(weekly.svg).toContain('aria-label="uptime 7d: 98.21%"');
+    expect(weekly.svg).toContain(`fill="#dfb317"`);
+    expect(clean.svg).toContain('aria-label="uptime 24h: 100%"');
+    expect(monthly.response.headers.get('Cache-Control')).toBe('public, max-age=300, s-maxage=300');
+  });
+
+  it('should not round uptime short of 100% up to 100%', async () => {
+    const blip: Incident = {
+      id: 'api-1',
+      site: 'api',
+      status: 'resolved',
+      severity: 'down',
+      startedAt: NOW - DAY,
+      resolvedAt: NOW - DAY + 60 * 1000,
+      cause: {},
+      checks: 1,
+      lastCheckedAt: NOW - DAY,
+    };
+    kv.store.set(`incident_api_${blip.startedAt}`, JSON.stringify(blip));
+
+    const { svg } = await badge('/badge/api/uptime');
+
+    expect(svg).toContain('aria-label="uptime 30d: 99.99%"');
+  });
+
+  it('should render the latest response time', async () => {
+    kv.store.set('current_main', JSON.stringify({ status: 'up', responseTime: 1500, timestamp: NOW }));
+
+    const { svg } = await badge('/badge/main/latency');
+
+    expect(svg).toContain('aria-label="response time: 1500 ms"');
+    expect(svg).toContain('fill="#dfb317"');
+  });
+
+  it('should render grey badges for missing data and unknown monitors', async () => {
+    expect((await badge('/badge/main')).svg).toContain('main: no data');
+
+    const unknown = await badge('/badge/nope');
+    expect(unknown.response.status).toBe(404);
+    expect(unknown.svg).toContain('nope: unknown monitor');
+
+    expect((await badge('/badge/main/colour')).response.status).toBe(404);
+    expect((await badge('/badge/main/uptime?window=1y')).response.status).toBe(400);
+  });
+
+  it('should escape label text', () => {
+    expect(renderBadge('<b>', 'a&b', 'grey')).toContain('&lt;b&gt;: a&amp;b');
+  });
+});
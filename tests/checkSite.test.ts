@@ -1,4 +1,4 @@
-import { checkSite, type SiteCheck, type Env, type UptimeData } from '../src/index';
+import { checkSite, type HttpCheck, type Env, type UptimeData } from '../src/index';
 
 // Mock KV namespace
 const createMockKV = (): KVNamespace => ({
@@ -15,7 +15,7 @@ globalThis.fetch = mockFetch;
 
 describe('checkSite', () => {
   let mockEnv: Env;
-  let mockSite: SiteCheck;
+  let mockSite: HttpCheck;
   let originalDateNow: () => number;
 
   beforeEach(() => {
@@ -55,6 +55,7 @@ describe('checkSite', () => {
     // Assert
     expect(mockFetch).toHaveBeenCalledWith(mockSite.url, {
       signal: expect.any(AbortSignal),
+      redirect: 'manual',
       headers: { 
         'User-Agent': 'Mozilla/5.0 (compatible; TeyvatArchive-Monitor/1.0)',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
@@ -74,9 +75,9 @@ describe('checkSite', () => {
     );
 
     expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
-      'history_test-site_1234567890',
-      JSON.stringify(expectedData),
-      { expirationTtl: 7 * 24 * 60 * 60 }
+      'history_day_test-site_1209600000',
+      JSON.stringify([expectedData]),
+      { expirationTtl: 8 * 24 * 60 * 60 }
     );
 
     // Should also store last_history tracking
@@ -112,9 +113,9 @@ describe('checkSite', () => {
 
     // Should also store history on first check
     expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
-      'history_test-site_1234567890',
-      JSON.stringify(expectedData),
-      { expirationTtl: 7 * 24 * 60 * 60 }
+      'history_day_test-site_1209600000',
+      JSON.stringify([expectedData]),
+      { expirationTtl: 8 * 24 * 60 * 60 }
     );
 
     // Should also store last_history tracking
@@ -146,9 +147,9 @@ describe('checkSite', () => {
     );
 
     expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
-      'history_test-site_1234567890',
-      JSON.stringify(expectedData),
-      { expirationTtl: 7 * 24 * 60 * 60 }
+      'history_day_test-site_1209600000',
+      JSON.stringify([expectedData]),
+      { expirationTtl: 8 * 24 * 60 * 60 }
     );
 
     // Should also store last_history tracking
@@ -194,7 +195,7 @@ describe('checkSite', () => {
 
     // Should NOT store history (status unchanged, within 2 hours)
     expect(mockEnv.UPTIME_KV.put).not.toHaveBeenCalledWith(
-      'history_test-site_1234567890',
+      'history_day_test-site_1209600000',
       expect.any(String),
       expect.any(Object)
     );
@@ -242,9 +243,9 @@ describe('checkSite', () => {
 
     // Should store history (status changed)
     expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
-      'history_test-site_1234567890',
-      JSON.stringify(expectedData),
-      { expirationTtl: 7 * 24 * 60 * 60 }
+      'history_day_test-site_1209600000',
+      JSON.stringify([expectedData]),
+      { expirationTtl: 8 * 24 * 60 * 60 }
     );
 
     // Should update last_history tracking
@@ -290,9 +291,9 @@ describe('checkSite', () => {
 
     // Should store history (over 2 hours passed)
     expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
-      'history_test-site_1234567890',
-      JSON.stringify(expectedData),
-      { expirationTtl: 7 * 24 * 60 * 60 }
+      'history_day_test-site_1209600000',
+      JSON.stringify([expectedData]),
+      { expirationTtl: 8 * 24 * 60 * 60 }
     );
 
     // Should update last_history tracking
@@ -329,9 +330,9 @@ describe('checkSite', () => {
 
     // Should store history (treats invalid JSON as first time)
     expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
-      'history_test-site_1234567890',
-      JSON.stringify(expectedData),
-      { expirationTtl: 7 * 24 * 60 * 60 }
+      'history_day_test-site_1209600000',
+      JSON.stringify([expectedData]),
+      { expirationTtl: 8 * 24 * 60 * 60 }
     );
 
     // Should update last_history tracking
@@ -340,4 +341,116 @@ describe('checkSite', () => {
       JSON.stringify(expectedData)
     );
   });
+
+  it('should mark the site down when a content assertion fails', async () => {
+    // Arrange
+    mockSite.assertions = [{ type: 'jsonPath', path: '$.status', equals: 'ok' }];
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ status: 'error' }), { status: 200 }));
+
+    // Act
+    await checkSite(mockSite, mockEnv);
+
+    // Assert
+    const expectedData: UptimeData = {
+      status: 'down',
+      responseTime: 0,
+      statusCode: 200,
+      timestamp: 1234567890,
+      error: 'Assertion failed: JSON path $.status does not equal "ok"',
+      failedAssertion: { index: 0, type: 'jsonPath', message: 'JSON path $.status does not equal "ok"' },
+    };
+
+    expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
+      'current_test-site',
+      JSON.stringify(expectedData)
+    );
+  });
+
+  it('should keep the site up when all content assertions pass', async () => {
+    // Arrange
+    mockSite.assertions = [{ type: 'notContains', value: 'Internal error' }];
+    mockFetch.mockResolvedValue(new Response('<html>Welcome</html>', { status: 200 }));
+
+    // Act
+    await checkSite(mockSite, mockEnv);
+
+    // Assert
+    expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
+      'current_test-site',
+      JSON.stringify({ status: 'up', responseTime: 0, statusCode: 200, timestamp: 1234567890 })
+    );
+  });
+
+  it('should not read the body when the response is already an error', async () => {
+    // Arrange
+    mockSite.assertions = [{ type: 'contains', value: 'ok' }];
+    const text = jest.fn();
+    mockFetch.mockResolvedValue({ ok: false, status: 502, text });
+
+    // Act
+    await checkSite(mockSite, mockEnv);
+
+    // Assert
+    expect(text).not.toHaveBeenCalled();
+  });
+
+  it('should treat configured status codes as up', async () => {
+    // Arrange
+    mockSite.expectedStatus = [401];
+    mockFetch.mockResolvedValue(new Response(null, { status: 401 }));
+
+    // Act
+    await checkSite(mockSite, mockEnv);
+
+    // Assert
+    expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
+      'current_test-site',
+      JSON.stringify({ status: 'up', responseTime: 0, statusCode: 401, timestamp: 1234567890 })
+    );
+  });
+
+  it('should record the final URL and redirect chain', async () => {
+    // Arrange
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, { status: 301, headers: { Location: 'https://www.example.com/' } }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    // Act
+    await checkSite(mockSite, mockEnv);
+
+    // Assert
+    const expectedData: UptimeData = {
+      status: 'up',
+      responseTime: 0,
+      statusCode: 200,
+      timestamp: 1234567890,
+      finalUrl: 'https://www.example.com/',
+      redirects: ['https://www.example.com/'],
+    };
+
+    expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
+      'current_test-site',
+      JSON.stringify(expectedData)
+    );
+  });
+
+  it('should mark the site down when it redirects in fail mode', async () => {
+    // Arrange
+    mockSite.redirect = 'fail';
+    mockSite.expectedStatus = ['200-399'];
+    mockFetch.mockResolvedValue(new Response(null, { status: 302, headers: { Location: 'https://parked.example/' } }));
+
+    // Act
+    await checkSite(mockSite, mockEnv);
+
+    // Assert
+    expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
+      'current_test-site',
+      expect.stringContaining('"error":"Unexpected redirect to https://parked.example/"')
+    );
+    expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(
+      'current_test-site',
+      expect.stringContaining('"status":"down"')
+    );
+  });
 });
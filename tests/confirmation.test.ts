@@ -0,0 +1,147 @@
+import { checkSite, type Env, type SiteCheck, type UptimeData } from '../src/index';
+import { validateConfirmation } from '../src/confirmation';
+import { createMemoryKV } from './testUtils';
+
+const mockFetch = jest.fn();
+const originalFetch = globalThis.fetch;
+
+describe('confirmation policy', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let mockEnv: Env;
+  let mockSite: SiteCheck;
+  let now: number;
+  const originalDateNow = Date.now;
+
+  const current = (): UptimeData => JSON.parse(kv.store.get('current_test-site')!);
+  const historyEntries = () => [...kv.store].filter(([key]) => key.startsWith('history_day_')).flatMap(([, value]) => JSON.parse(value));
+
+  beforeEach(() => {
+    kv = createMemoryKV();
+    mockEnv = { UPTIME_KV: kv };
+    mockSite = { name: 'test-site', url: 'https://example.com', timeout: 5000 };
+    jest.clearAllMocks();
+    globalThis.fetch = mockFetch;
+
+    now = 1234567890;
+    Date.now = jest.fn(() => now);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    Date.now = originalDateNow;
+  });
+
+  describe('retries', () => {
+    it('should retry a failed check within the same run', async () => {
+      mockSite.confirmation = { retries: 2, retryDelay: 0 };
+      mockFetch
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      await checkSite(mockSite, mockEnv);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(current()).toEqual({ status: 'up', responseTime: 0, statusCode: 200, timestamp: 1234567890, attempts: 2 });
+    });
+
+    it('should report down once all retries fail', async () => {
+      mockSite.confirmation = { retries: 2, retryDelay: 0 };
+      mockFetch.mockRejectedValue(new Error('timeout'));
+
+      await checkSite(mockSite, mockEnv);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(current()).toMatchObject({ status: 'down', error: 'timeout', attempts: 3 });
+    });
+
+    it('should back off exponentially between retries', async () => {
+      jest.useFakeTimers();
+      try {
+        mockSite.confirmation = { retries: 2, retryDelay: 100 };
+        mockFetch.mockRejectedValue(new Error('timeout'));
+
+        const check = checkSite(mockSite, mockEnv);
+        await jest.advanceTimersByTimeAsync(99);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(199);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        await jest.advanceTimersByTimeAsync(1);
+        await check;
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('consecutive run thresholds', () => {
+    beforeEach(() => {
+      mockSite.confirmation = { failureThreshold: 3, recoveryThreshold: 2 };
+    });
+
+    it('should keep the confirmed status while a failure is only suspected', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+      await checkSite(mockSite, mockEnv);
+
+      mockFetch.mockResolvedValue({ ok: false, status: 503 });
+      now += 5 * 60 * 1000;
+      await checkSite(mockSite, mockEnv);
+
+      expect(current()).toMatchObject({ status: 'up', observedStatus: 'down', suspected: true, consecutive: 1, statusCode: 503 });
+
+      now += 5 * 60 * 1000;
+      await checkSite(mockSite, mockEnv);
+
+      expect(current()).toMatchObject({ status: 'up', suspected: true, consecutive: 2 });
+      expect(historyEntries()).toHaveLength(1);
+
+      now += 5 * 60 * 1000;
+      await checkSite(mockSite, mockEnv);
+
+      expect(current()).toEqual({ status: 'down', responseTime: 0, statusCode: 503, timestamp: now });
+      expect(historyEntries()).toHaveLength(2);
+    });
+
+    it('should reset the count when a suspected failure clears', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce({ ok: false, status: 503 })
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce({ ok: false, status: 503 });
+
+      for (let i = 0; i < 4; i++) {
+        now += 5 * 60 * 1000;
+        await checkSite(mockSite, mockEnv);
+      }
+
+      expect(current()).toMatchObject({ status: 'up', suspected: true, consecutive: 1 });
+    });
+
+    it('should apply the recovery threshold when coming back up', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+      await checkSite(mockSite, mockEnv);
+
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+      now += 5 * 60 * 1000;
+      await checkSite(mockSite, mockEnv);
+      expect(current()).toMatchObject({ status: 'down', observedStatus: 'up', suspected: true });
+
+      now += 5 * 60 * 1000;
+      await checkSite(mockSite, mockEnv);
+      expect(current()).toEqual({ status: 'up', responseTime: 0, statusCode: 200, timestamp: now });
+    });
+  });
+
+  describe('validateConfirmation', () => {
+    it('should accept a valid policy', () => {
+      expect(validateConfirmation({ retries: 2, retryDelay: 500, failureThreshold: 3, recoveryThreshold: 2 })).toEqual([]);
+    });
+
+    it('should reject out-of-range values', () => {
+      expect(validateConfirmation({ retries: 10, retryDelay: -1, failureThreshold: 0, recoveryThreshold: 1.5 })).toHaveLength(4);
+      expect(validateConfirmation('often')).toEqual(['confirmation must be an object']);
+    });
+  });
+});
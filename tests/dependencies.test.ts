@@ -0,0 +1,157 @@
+import worker, { type Env, type HttpCheck, type SiteCheck } from '../src/index';
+import { dependencyLevels, validateDependencies } from '../src/dependencies';
+import { ADMIN_HEADERS, TEST_ADMIN_KEY, createExecutionContext, createMemoryKV } from './testUtils';
+
+const MINUTE = 60 * 1000;
+const WEBHOOK = 'https://hooks.example.com/alerts';
+const originalFetch = globalThis.fetch;
+
+const monitor = (name: string, dependsOn?: string[]): HttpCheck => ({
+  name,
+  url: `https://${name}.teyvatarchive.online/`,
+  timeout: 5000,
+  ...(dependsOn ? { dependsOn } : {}),
+});
+
+describe('monitor dependencies', () => {
+  const monitors = [monitor('dashboard', ['api']), monitor('api', ['main']), monitor('main'), monitor('cdn')];
+  let kv: ReturnType<typeof createMemoryKV>;
+  let env: Env;
+  let now: number;
+  let down: Set<string>;
+  let checked: string[];
+  let alerts: any[];
+
+  const run = async () => {
+    now += 5 * MINUTE;
+    checked = [];
+    const ctx = createExecutionContext();
+    await worker.scheduled({} as ScheduledEvent, env, ctx);
+    await ctx.settle();
+  };
+  const current = (name: string) => JSON.parse(kv.store.get(`current_${name}`)!);
+
+  beforeEach(() => {
+    kv = createMemoryKV({
+      monitors: JSON.stringify(monitors),
+      alert_channels: JSON.stringify([{ id: 'ops', type: 'webhook', url: WEBHOOK }]),
+    });
+    env = { UPTIME_KV: kv, ADMIN_API_KEY: TEST_ADMIN_KEY };
+    now = Date.UTC(2025, 5, 20, 12, 0);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    down = new Set();
+    alerts = [];
+    globalThis.fetch = jest.fn(async (input: RequestInfo | URL) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url === WEBHOOK) {
+        alerts.push(await (input as Request).json());
+        return new Response(null, { status: 204 });
+      }
+      const name = new URL(url).hostname.split('.')[0];
+      checked.push(name);
+      return new Response(null, { status: down.has(name) ? 503 : 200 });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should check upstream monitors before their dependents', async () => {
+    await run();
+
+    expect(checked.indexOf('main')).toBeLessThan(checked.indexOf('api'));
+    expect(checked.indexOf('api')).toBeLessThan(checked.indexOf('dashboard'));
+  });
+
+  it('should attribute cascading failures to the root cause and only alert for it', async () => {
+    await run();
+    down = new Set(['main', 'api', 'dashboard']);
+    await run();
+
+    expect(current('main')).toMatchObject({ status: 'down', statusCode: 503 });
+    expect(current('main').upstream).toBeUndefined();
+    expect(current('api')).toMatchObject({ status: 'down', upstream: 'main' });
+    expect(current('dashboard')).toMatchObject({ status: 'down', upstream: 'main' });
+    expect(alerts.map(alert => `${alert.site} ${alert.event}`)).toEqual(['main down']);
+
+    const incident = JSON.parse(kv.store.get(kv.store.get('open_incident_dashboard')!)!);
+    expect(incident.cause.upstream).toBe('main');
+
+    const status: any = await (await worker.fetch(new Request('https://status.example.com/api/status'), env)).json();
+    expect(status._dependencies).toEqual({
+      graph: { dashboard: ['api'], api: ['main'] },
+      rootCauses: { main: ['dashboard', 'api'] },
+    });
+
+    down = new Set();
+    await run();
+
+    expect(current('dashboard')).toEqual(expect.not.objectContaining({ upstream: expect.anything() }));
+    expect(alerts.map(alert => `${alert.site} ${alert.event}`)).toEqual(['main down', 'main up']);
+  });
+
+  it('should alert for a dependent that stays down after its upstream recovers', async () => {
+    await run();
+    down = new Set(['main', 'api']);
+    await run();
+    down = new Set(['api']);
+    await run();
+
+    expect(current('api')).toEqual(expect.objectContaining({ status: 'down' }));
+    expect(current('api').upstream).toBeUndefined();
+    expect(alerts.map(alert => `${alert.site} ${alert.event}`)).toEqual(['main down', 'main up', 'api down']);
+  });
+
+  it('should not report a dependent as caused upstream when only it is down', async () => {
+    await run();
+    down = new Set(['dashboard']);
+    await run();
+
+    expect(current('dashboard').upstream).toBeUndefined();
+    expect(alerts.map(alert => `${alert.site} ${alert.event}`)).toEqual(['dashboard down']);
+  });
+
+  it('should not blame an upstream whose last result is older than its interval', async () => {
+    await run();
+    down = new Set(['main', 'api', 'dashboard']);
+    await run();
+    // main stops being checked, e.g. because it was paused, and its down result goes stale
+    kv.store.set('monitors', JSON.stringify(monitors.map(site => (site.name === 'main' ? { ...site, paused: true } : site))));
+    now += 5 * MINUTE;
+    await run();
+
+    expect(checked).not.toContain('main');
+    expect(current('api')).toMatchObject({ status: 'down' });
+    expect(current('api').upstream).toBeUndefined();
+    expect(current('dashboard')).toMatchObject({ status: 'down', upstream: 'api' });
+  });
+
+  it('should validate dependencies against the registry', async () => {
+    const request = (path: string, method: string, body?: unknown) =>
+      worker.fetch(new Request(`https://status.example.com${path}`, { method, body: body === undefined ? undefined : JSON.stringify(body), headers: ADMIN_HEADERS }), env);
+
+    const unknown = await request('/api/monitors', 'POST', { ...monitor('wiki', ['search']) });
+    expect(await unknown.json()).toEqual({ error: 'Invalid monitor', details: ['dependsOn refers to unknown monitors: search'] });
+
+    const cycle = await request('/api/monitors/main', 'PUT', { ...monitor('main', ['dashboard']) });
+    expect(await cycle.json()).toEqual({ error: 'Invalid monitor', details: ['dependsOn would create a cycle: main → dashboard → api → main'] });
+
+    const self = await request('/api/monitors/main', 'PUT', { ...monitor('main', ['main']) });
+    expect(((await self.json()) as any).details).toEqual(['dependsOn must be an array of up to 20 other monitor names without duplicates']);
+
+    const remove = await request('/api/monitors/api', 'DELETE');
+    expect(remove.status).toBe(409);
+    expect(await remove.json()).toEqual({ error: "Monitor 'api' is a dependency of dashboard" });
+
+    expect((await request('/api/monitors', 'POST', monitor('wiki', ['api', 'cdn']))).status).toBe(201);
+  });
+
+  it('should order diamond-shaped graphs by depth', () => {
+    const sites: SiteCheck[] = [monitor('page', ['left', 'right']), monitor('left', ['db']), monitor('right', ['left']), monitor('db')];
+
+    expect(dependencyLevels(sites).map(level => level.map(site => site.name))).toEqual([['db'], ['left'], ['right'], ['page']]);
+    expect(validateDependencies(monitor('db', ['page']), sites)).toEqual(['dependsOn would create a cycle: db → page → left → db']);
+  });
+});
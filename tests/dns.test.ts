@@ -0,0 +1,130 @@
+/// <reference types="node" />
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { checkSite, validateMonitor, type DnsCheck, type Env } from '../src/index';
+import { normalizeRecord, probeDns } from '../src/dns';
+import { createMemoryKV } from './testUtils';
+
+type Zone = Record<string, { Status?: number; Answer?: { name: string; type: number; TTL: number; data: string }[] }>;
+
+// Local stand-in for a DoH resolver speaking the JSON API
+const startResolver = async (zone: Zone) => {
+  const queries: string[] = [];
+  const server: Server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const key = `${url.searchParams.get('name')} ${url.searchParams.get('type')}`;
+    queries.push(`${key} ${req.headers.accept}`);
+
+    const answer = zone[key] ?? { Status: 3 };
+    res.setHeader('Content-Type', 'application/dns-json');
+    res.end(JSON.stringify({ Status: 0, ...answer }));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/dns-query`,
+    queries,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+describe('DNS monitors', () => {
+  let resolver: Awaited<ReturnType<typeof startResolver>>;
+  const site = (overrides: Partial<DnsCheck> = {}): DnsCheck => ({
+    type: 'dns',
+    name: 'apex',
+    host: 'teyvatarchive.online',
+    recordType: 'A',
+    resolver: resolver.url,
+    timeout: 2000,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    resolver = await startResolver({
+      'teyvatarchive.online A': {
+        Answer: [
+          { name: 'teyvatarchive.online.', type: 1, TTL: 300, data: '104.21.5.10' },
+          { name: 'teyvatarchive.online.', type: 1, TTL: 300, data: '172.67.130.2' },
+        ],
+      },
+      'cdn.teyvatarchive.online A': {
+        Answer: [
+          { name: 'cdn.teyvatarchive.online.', type: 5, TTL: 300, data: 'Edge.Example.NET.' },
+          { name: 'edge.example.net.', type: 1, TTL: 60, data: '203.0.113.7' },
+        ],
+      },
+      'cdn.teyvatarchive.online CNAME': { Answer: [{ name: 'cdn.teyvatarchive.online.', type: 5, TTL: 300, data: 'Edge.Example.NET.' }] },
+      'teyvatarchive.online TXT': { Answer: [{ name: 'teyvatarchive.online.', type: 16, TTL: 300, data: '"v=spf1 " "-all"' }] },
+      'empty.teyvatarchive.online AAAA': { Answer: [] },
+      'broken.teyvatarchive.online A': { Status: 2 },
+    });
+  });
+
+  afterEach(async () => {
+    await resolver.close();
+  });
+
+  it('should resolve records and store them with the resolution time', async () => {
+    const kv = createMemoryKV();
+    const env: Env = { UPTIME_KV: kv };
+
+    const data = await checkSite(site({ expected: ['172.67.130.2'] }), env);
+
+    expect(data).toMatchObject({ status: 'up', resolved: ['104.21.5.10', '172.67.130.2'], responseTime: expect.any(Number) });
+    expect(JSON.parse(kv.store.get('current_apex')!).resolved).toEqual(['104.21.5.10', '172.67.130.2']);
+    expect(resolver.queries).toEqual(['teyvatarchive.online A application/dns-json']);
+  });
+
+  it('should only keep records of the requested type', async () => {
+    const cname = await probeDns(site({ host: 'cdn.teyvatarchive.online', recordType: 'CNAME', expected: ['edge.example.net.'] }));
+    const a = await probeDns(site({ host: 'cdn.teyvatarchive.online' }));
+
+    expect(resolver.queries[0]).toBe('cdn.teyvatarchive.online CNAME application/dns-json');
+    expect(a).toMatchObject({ status: 'up', resolved: ['203.0.113.7'] });
+    expect(cname).toMatchObject({ status: 'up', resolved: ['edge.example.net'] });
+  });
+
+  it('should fail on missing values, empty answers and resolver errors', async () => {
+    await expect(probeDns(site({ expected: ['10.0.0.1'] }))).resolves.toMatchObject({
+      status: 'down',
+      error: 'Missing expected A records: 10.0.0.1',
+      resolved: ['104.21.5.10', '172.67.130.2'],
+    });
+    await expect(probeDns(site({ host: 'empty.teyvatarchive.online', recordType: 'AAAA' }))).resolves.toMatchObject({
+      status: 'down',
+      error: 'No AAAA records for empty.teyvatarchive.online',
+    });
+    await expect(probeDns(site({ host: 'broken.teyvatarchive.online' }))).resolves.toMatchObject({
+      status: 'down',
+      error: 'DNS query failed with SERVFAIL',
+    });
+    await expect(probeDns(site({ host: 'missing.teyvatarchive.online' }))).resolves.toMatchObject({
+      status: 'down',
+      error: 'DNS query failed with NXDOMAIN',
+    });
+  });
+
+  it('should match TXT values without quotes', async () => {
+    await expect(probeDns(site({ recordType: 'TXT', expected: ['v=spf1 -all'] }))).resolves.toMatchObject({ status: 'up', resolved: ['v=spf1 -all'] });
+    expect(normalizeRecord('MX', '10 Mail.Example.com.')).toBe('10 mail.example.com');
+  });
+
+  it('should validate DNS monitors', () => {
+    expect(validateMonitor({ type: 'dns', name: 'apex', host: 'teyvatarchive.online', recordType: 'MX', timeout: 3000 }).monitor).toEqual({
+      type: 'dns',
+      name: 'apex',
+      host: 'teyvatarchive.online',
+      recordType: 'MX',
+      timeout: 3000,
+    });
+    expect(validateMonitor({ type: 'dns', name: 'apex', host: 'teyvatarchive.online', recordType: 'SRV', resolver: 'dns://1.1.1.1', expected: [], port: 53, timeout: 3000 }).errors).toEqual([
+      'recordType must be one of A, CNAME, MX, TXT, AAAA',
+      'resolver must be a valid http or https URL',
+      'expected must be an array of 1-20 record values',
+      'port is only supported for tcp monitors',
+    ]);
+  });
+});
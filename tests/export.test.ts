@@ -0,0 +1,102 @@
+import worker, { type Env, type UptimeData } from '../src/index';
+import { appendHistory } from '../src/history';
+import { formatExportRow } from '../src/export';
+import { createMemoryKV } from './testUtils';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('/api/export', () => {
+  const now = Date.UTC(2025, 5, 20, 12, 0);
+  let kv: ReturnType<typeof createMemoryKV>;
+  let env: Env;
+
+  const entry = (timestamp: number, overrides: Partial<UptimeData> = {}): UptimeData => ({ status: 'up', responseTime: 120, statusCode: 200, timestamp, ...overrides });
+  const exportHistory = (query: string) => worker.fetch(new Request(`https://status.example.com/api/export${query}`), env);
+
+  beforeEach(async () => {
+    kv = createMemoryKV({
+      history_migrated: '1',
+      monitors: JSON.stringify([
+        { name: 'main', url: 'https://teyvatarchive.online/', timeout: 5000 },
+        { name: 'api', url: 'https://api.teyvatarchive.online/', timeout: 5000 },
+      ]),
+    });
+    env = { UPTIME_KV: kv };
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    // One entry every two hours for three days
+    for (let i = 36; i >= 0; i--) {
+      await appendHistory(env, 'main', entry(now - i * 2 * HOUR));
+    }
+    await appendHistory(env, 'api', entry(now - DAY, { status: 'down', statusCode: undefined, responseTime: 0, error: 'Timeout, "retried" twice' }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should stream a site as CSV, oldest first', async () => {
+    const response = await exportHistory('?site=main');
+    const lines = (await response.text()).trimEnd().split('\r\n');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="uptime-history-main-2025-06-20.csv"');
+    expect(lines[0]).toBe('site,timestamp,time,status,statusCode,responseTime,error');
+    expect(lines).toHaveLength(38);
+    expect(lines[1]).toBe(`main,${now - 72 * HOUR},2025-06-17T12:00:00.000Z,up,200,120,`);
+    expect(lines[37]).toBe(`main,${now},2025-06-20T12:00:00.000Z,up,200,120,`);
+  });
+
+  it('should read the body a day segment at a time', async () => {
+    (kv.get as jest.Mock).mockClear();
+    const response = await exportHistory('?site=main&format=ndjson');
+    const reader = response.body!.getReader();
+
+    const { value } = await reader.read();
+    const oldest = now - 3 * DAY - ((now - 3 * DAY) % DAY);
+    const segments = (kv.get as jest.Mock).mock.calls.map(([key]) => key).filter(key => key.startsWith('history_day_'));
+
+    // The first chunk is the oldest day with entries; later days have not been read yet
+    expect(new TextDecoder().decode(value).trimEnd().split('\n')).toHaveLength(6);
+    expect(segments[segments.length - 1]).toBe(`history_day_main_${oldest}`);
+    await reader.cancel();
+  });
+
+  it('should export all sites as NDJSON within the range', async () => {
+    const response = await exportHistory(`?format=ndjson&from=${now - DAY}&to=${new Date(now - 20 * HOUR).toISOString()}`);
+    const records = (await response.text()).trimEnd().split('\n').map(line => JSON.parse(line));
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="uptime-history-all-2025-06-20.ndjson"');
+    expect(records).toEqual([
+      { site: 'main', ...entry(now - DAY) },
+      { site: 'main', ...entry(now - 22 * HOUR) },
+      { site: 'main', ...entry(now - 20 * HOUR) },
+      { site: 'api', status: 'down', responseTime: 0, timestamp: now - DAY, error: 'Timeout, "retried" twice' },
+    ]);
+  });
+
+  it('should quote CSV fields with separators and quotes', () => {
+    const row = formatExportRow('csv', 'api', entry(now, { status: 'down', statusCode: undefined, error: 'Timeout, "retried" twice' }));
+
+    expect(row).toBe(`api,${now},2025-06-20T12:00:00.000Z,down,,120,"Timeout, ""retried"" twice"\r\n`);
+  });
+
+  it('should reject invalid parameters', async () => {
+    const errors = await Promise.all(
+      ['?format=xlsx', '?from=yesterday', `?from=${now}&to=${now - HOUR}`, '?site=unknown'].map(async query => {
+        const response = await exportHistory(query);
+        return [response.status, await response.json()];
+      })
+    );
+
+    expect(errors).toEqual([
+      [400, { error: 'format must be one of csv, ndjson' }],
+      [400, { error: 'from and to must be epoch milliseconds or ISO 8601 dates' }],
+      [400, { error: 'from must not be after to' }],
+      [404, { error: "Monitor 'unknown' not found" }],
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import worker, { type Env, type Incident, type UptimeData } from '../src/index';
+import { appendHistory } from '../src/history';
+import { transitionEntries } from '../src/feed';
+import { createMemoryKV } from './testUtils';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('status feeds', () => {
+  const now = Date.UTC(2025, 5, 20, 12, 0);
+  let kv: ReturnType<typeof createMemoryKV>;
+  let env: Env;
+
+  const entry = (timestamp: number, status: UptimeData['status'] = 'up', overrides: Partial<UptimeData> = {}): UptimeData => ({
+    status,
+    responseTime: status === 'down' ? 0 : 120,
+    timestamp,
+    ...overrides,
+  });
+  const incident = (site: string, startedAt: number, overrides: Partial<Incident> = {}): Incident => ({
+    id: `${site}-${startedAt}`,
+    site,
+    status: 'open',
+    severity: 'down',
+    startedAt,
+    cause: { statusCode: 503 },
+    checks: 3,
+    lastCheckedAt: now,
+    ...overrides,
+  });
+  const fetchFeed = (path: string) => worker.fetch(new Request(`https://status.example.com${path}`), env);
+
+  beforeEach(async () => {
+    kv = createMemoryKV({
+      history_migrated: '1',
+      monitors: JSON.stringify([
+        { name: 'main', url: 'https://teyvatarchive.online/', timeout: 5000 },
+        { name: 'api', url: 'https://api.teyvatarchive.online/', timeout: 5000 },
+      ]),
+    });
+    env = { UPTIME_KV: kv };
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await appendHistory(env, 'main', entry(now - 6 * HOUR));
+    await appendHistory(env, 'main', entry(now - 3 * HOUR, 'down', { statusCode: 502 }));
+    await appendHistory(env, 'main', entry(now - 2 * HOUR - 45 * MINUTE, 'down', { statusCode: 502 }));
+    await appendHistory(env, 'main', entry(now - 2 * HOUR));
+    await appendHistory(env, 'api', entry(now - HOUR));
+    await appendHistory(env, 'api', entry(now - 30 * MINUTE, 'down', { error: 'Request timeout <5s>' }));
+
+    const resolved = incident('main', now - 3 * HOUR, { status: 'resolved', resolvedAt: now - 2 * HOUR, durationMs: HOUR, cause: { statusCode: 502 } });
+    kv.store.set(`incident_main_${now - 3 * HOUR}`, JSON.stringify(resolved));
+    kv.store.set(`incident_api_${now - 30 * MINUTE}`, JSON.stringify(incident('api', now - 30 * MINUTE, { cause: { error: 'Request timeout <5s>' } })));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should publish incidents and status changes as Atom, newest first', async () => {
+    const response = await fetchFeed('/feed.atom');
+    const xml = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+    expect(xml).toContain(`<updated>${new Date(now - 30 * MINUTE).toISOString()}</updated>`);
+    expect(xml).toContain('<link rel="self" href="https://status.example.com/feed.atom"/>');
+    expect([...xml.matchAll(/<entry>\s*<id>([^<]+)<\/id>/g)].map(match => match[1])).toEqual([
+      `urn:teyvat-uptime:incident:api-${now - 30 * MINUTE}`,
+      `urn:teyvat-uptime:transition:api:${now - 30 * MINUTE}`,
+      `urn:teyvat-uptime:incident:main-${now - 3 * HOUR}`,
+      `urn:teyvat-uptime:transition:main:${now - 2 * HOUR}`,
+      `urn:teyvat-uptime:transition:main:${now - 3 * HOUR}`,
+    ]);
+    expect(xml).toContain('<title>[Resolved] main was down for 1h</title>');
+    expect(xml).toContain(
+      '<summary type="text">main was down from 2025-06-20 09:00 UTC to 2025-06-20 10:00 UTC (1h). Cause: HTTP 502.</summary>'
+    );
+    expect(xml).toContain(
+      '<summary type="text">api has been down since 2025-06-20 11:30 UTC (30m so far). Cause: Request timeout &lt;5s&gt;.</summary>'
+    );
+    expect(xml).toContain('<summary type="text">main changed from down to up at 2025-06-20 10:00 UTC after 1h of downtime.</summary>');
+  });
+
+  it('should keep entry ids stable and update resolved incidents in place', async () => {
+    const before = await (await fetchFeed('/feed.atom?site=api')).text();
+    kv.store.set(
+      `incident_api_${now - 30 * MINUTE}`,
+      JSON.stringify(incident('api', now - 30 * MINUTE, { status: 'resolved', resolvedAt: now, durationMs: 30 * MINUTE, cause: { error: 'Request timeout' } }))
+    );
+    const after = await (await fetchFeed('/feed.atom?site=api')).text();
+
+    const id = `<id>urn:teyvat-uptime:incident:api-${now - 30 * MINUTE}</id>`;
+    expect(before).toContain(id);
+    expect(after).toContain(id);
+    expect(after).toContain('<title>[Resolved] api was down for 30m</title>');
+    expect(after).toContain(`<published>${new Date(now - 30 * MINUTE).toISOString()}</published>\n    <updated>${new Date(now).toISOString()}</updated>`);
+    expect(after).not.toContain('main');
+  });
+
+  it('should publish the same entries as RSS', async () => {
+    const response = await fetchFeed('/feed.rss?site=main');
+    const xml = await response.text();
+
+    expect(response.headers.get('Content-Type')).toBe('application/rss+xml; charset=utf-8');
+    expect(xml).toContain('<title>Teyvat Archive Status: main</title>');
+    expect(xml).toContain('<description>Status changes and incidents of main</description>');
+    expect(xml).toContain(`<lastBuildDate>${new Date(now - 2 * HOUR).toUTCString()}</lastBuildDate>`);
+    expect(xml).toContain(`<guid isPermaLink="false">urn:teyvat-uptime:incident:main-${now - 3 * HOUR}</guid>`);
+    expect(xml).toContain(`<pubDate>${new Date(now - 3 * HOUR).toUTCString()}</pubDate>`);
+    expect(xml.match(/<item>/g)).toHaveLength(3);
+  });
+
+  it('should return 404 for unknown monitors', async () => {
+    const response = await fetchFeed('/feed.rss?site=wiki');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Monitor 'wiki' not found" });
+  });
+
+  it('should describe each status change with how long the previous status lasted', () => {
+    const entries = transitionEntries('cdn', [
+      entry(now - 4 * HOUR),
+      entry(now - 2 * HOUR),
+      entry(now - HOUR, 'degraded', { responseTime: 2400 }),
+      entry(now - 30 * MINUTE, 'maintenance'),
+      entry(now, 'down', { upstream: 'main' }),
+    ]);
+
+    expect(entries.map(e => [e.title, e.summary])).toEqual([
+      ['cdn is degraded', 'cdn changed from up to degraded at 2025-06-20 11:00 UTC after 3h of uptime: slow responses (2400 ms).'],
+      ['cdn is in maintenance', 'cdn changed from degraded to maintenance at 2025-06-20 11:30 UTC after 30m of degraded performance.'],
+      ['cdn is down', 'cdn changed from maintenance to down at 2025-06-20 12:00 UTC after 30m of maintenance: Upstream main is down.'],
+    ]);
+  });
+});
@@ -1,53 +1,37 @@
 import { getHistory, type Env, type UptimeData } from '../src/index';
+import { appendHistory, migrateLegacyHistory, readHistory } from '../src/history';
+import { createMemoryKV } from './testUtils';
 
-// Mock KV namespace
-const createMockKV = (): KVNamespace => ({
-  put: jest.fn().mockResolvedValue(undefined),
-  get: jest.fn(),
-  list: jest.fn(),
-  delete: jest.fn().mockResolvedValue(undefined),
-  getWithMetadata: jest.fn().mockResolvedValue({ value: null, metadata: null }),
-});
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
 
 describe('getHistory', () => {
+  const now = Date.UTC(2025, 5, 20, 12, 0);
+  let kv: ReturnType<typeof createMemoryKV>;
   let mockEnv: Env;
 
+  const entry = (timestamp: number, status: UptimeData['status'] = 'up'): UptimeData => ({ status, responseTime: 100, timestamp });
+
   beforeEach(() => {
-    mockEnv = {
-      UPTIME_KV: createMockKV(),
-    };
-    jest.clearAllMocks();
+    kv = createMemoryKV({ history_migrated: '1' });
+    mockEnv = { UPTIME_KV: kv };
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   it('should return history for a specific site', async () => {
     // Arrange
-    const mockData1: UptimeData = {
-      status: 'up',
-      responseTime: 100,
-      statusCode: 200,
-      timestamp: 1234567890,
-    };
-
-    const mockData2: UptimeData = {
-      status: 'down',
-      responseTime: 0,
-      error: 'Connection failed',
-      timestamp: 1234567800,
-    };
-
-    (mockEnv.UPTIME_KV.list as jest.Mock).mockResolvedValue({
-      keys: [
-        { name: 'history_main_1234567890' },
-        { name: 'history_main_1234567800' },
-      ]
-    });
-
-    (mockEnv.UPTIME_KV.get as jest.Mock)
-      .mockResolvedValueOnce(JSON.stringify(mockData1))
-      .mockResolvedValueOnce(JSON.stringify(mockData2));
+    const mockData1: UptimeData = { status: 'up', responseTime: 100, statusCode: 200, timestamp: now - HOUR };
+    const mockData2: UptimeData = { status: 'down', responseTime: 0, error: 'Connection failed', timestamp: now - DAY };
+    await appendHistory(mockEnv, 'main', mockData2);
+    await appendHistory(mockEnv, 'main', mockData1);
+    await appendHistory(mockEnv, 'dashboard', entry(now));
 
     // Act
-    const response = await getHistory(mockEnv, 'main');
+    const response = await getHistory(mockEnv, new URLSearchParams({ site: 'main' }));
     const result = await response.json();
 
     // Assert
@@ -55,15 +39,13 @@ describe('getHistory', () => {
     expect(response.headers.get('Content-Type')).toBe('application/json');
     expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
 
-    expect(mockEnv.UPTIME_KV.list).toHaveBeenCalledWith({ prefix: 'history_main_' });
-
-    // Should be sorted by timestamp (descending) and limited to 100
+    // Should be sorted by timestamp (descending)
     expect(result).toEqual([mockData1, mockData2]);
   });
 
   it('should return 400 when site parameter is missing', async () => {
     // Act
-    const response = await getHistory(mockEnv, null);
+    const response = await getHistory(mockEnv, new URLSearchParams());
     const result = await response.text();
 
     // Assert
@@ -72,11 +54,8 @@ describe('getHistory', () => {
   });
 
   it('should handle empty history', async () => {
-    // Arrange
-    (mockEnv.UPTIME_KV.list as jest.Mock).mockResolvedValue({ keys: [] });
-
     // Act
-    const response = await getHistory(mockEnv, 'main');
+    const response = await getHistory(mockEnv, new URLSearchParams({ site: 'main' }));
     const result = await response.json();
 
     // Assert
@@ -86,51 +65,161 @@ describe('getHistory', () => {
 
   it('should handle invalid JSON data gracefully', async () => {
     // Arrange
-    (mockEnv.UPTIME_KV.list as jest.Mock).mockResolvedValue({
-      keys: [
-        { name: 'history_main_1234567890' },
-        { name: 'history_main_1234567800' },
-      ]
-    });
-
-    (mockEnv.UPTIME_KV.get as jest.Mock)
-      .mockResolvedValueOnce('invalid json')
-      .mockResolvedValueOnce(JSON.stringify({ status: 'up', timestamp: 123 }));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    kv.store.set(`history_day_main_${now - (now % DAY)}`, 'invalid json');
+    await appendHistory(mockEnv, 'main', entry(now - DAY));
 
     // Act
-    const response = await getHistory(mockEnv, 'main');
+    const response = await getHistory(mockEnv, new URLSearchParams({ site: 'main' }));
     const result = await response.json();
 
     // Assert
     expect(response.status).toBe(200);
-    // Should only include valid JSON entries
-    expect(result).toEqual([{ status: 'up', timestamp: 123 }]);
+    // Should only include readable segments
+    expect(result).toEqual([entry(now - DAY)]);
   });
 
   it('should limit results to 100 entries', async () => {
     // Arrange
-    const keys = Array.from({ length: 150 }, (_, i) => ({
-      name: `history_main_${1234567890 + i}`
-    }));
+    for (let i = 0; i < 150; i++) {
+      await appendHistory(mockEnv, 'main', entry(now - i * 10 * 60 * 1000));
+    }
+
+    // Act
+    const response = await getHistory(mockEnv, new URLSearchParams({ site: 'main' }));
+    const result = (await response.json()) as UptimeData[];
+
+    // Assert
+    expect(result).toHaveLength(100);
+    expect(result[0].timestamp).toBe(now);
+    expect(result[99].timestamp).toBe(now - 99 * 10 * 60 * 1000);
+  });
+
+  describe('read counts', () => {
+    it('should read one segment per day without listing keys', async () => {
+      // A week of checks every five minutes, far more than the old layout could list in one call
+      for (let day = now - 7 * DAY; day <= now; day += DAY) {
+        const start = day - (day % DAY);
+        const entries = Array.from({ length: 288 }, (_, i) => entry(start + i * 5 * 60 * 1000)).filter(data => data.timestamp <= now);
+        kv.store.set(`history_day_main_${start}`, JSON.stringify(entries));
+      }
+      (kv.get as jest.Mock).mockClear();
+
+      const history = await readHistory(mockEnv, 'main', { limit: 2000 });
+
+      expect(history.length).toBeGreaterThan(1000);
+      expect(kv.list).not.toHaveBeenCalled();
+      // Eight day segments plus the migration marker
+      expect(kv.get).toHaveBeenCalledTimes(9);
+    });
+
+    it('should stop reading once enough entries are collected', async () => {
+      for (let i = 0; i < 150; i++) {
+        await appendHistory(mockEnv, 'main', entry(now - i * 5 * 60 * 1000));
+      }
+      (kv.get as jest.Mock).mockClear();
 
-    (mockEnv.UPTIME_KV.list as jest.Mock).mockResolvedValue({ keys });
+      await getHistory(mockEnv, new URLSearchParams({ site: 'main' }));
+
+      // Today's 145 entries are enough, so only one segment plus the migration marker is read
+      expect(kv.get).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('legacy history keys', () => {
+    beforeEach(() => {
+      kv.store.delete('history_migrated');
+      kv.store.set(`history_main_${now - 2 * HOUR}`, JSON.stringify(entry(now - 2 * HOUR, 'down')));
+      kv.store.set(`history_main_${now - 3 * DAY}`, JSON.stringify(entry(now - 3 * DAY)));
+    });
 
-    const mockData = {
-      status: 'up' as const,
-      responseTime: 100,
-      statusCode: 200,
-      timestamp: 1234567890,
+    it('should include legacy entries until the migration is done', async () => {
+      await appendHistory(mockEnv, 'main', entry(now - HOUR));
+
+      const result = await (await getHistory(mockEnv, new URLSearchParams({ site: 'main' }))).json();
+
+      expect(result).toEqual([entry(now - HOUR), entry(now - 2 * HOUR, 'down'), entry(now - 3 * DAY)]);
+    });
+
+    it('should move legacy entries into day segments and mark the migration done', async () => {
+      kv.store.set(`history_main-eu_${now}`, JSON.stringify(entry(now)));
+      await appendHistory(mockEnv, 'main', entry(now - HOUR));
+
+      await migrateLegacyHistory(mockEnv, ['main', 'main-eu']);
+
+      expect([...kv.store.keys()].filter(key => /^history_[a-z-]+_\d+$/.test(key))).toEqual([]);
+      expect(JSON.parse(kv.store.get(`history_day_main_${now - (now % DAY)}`)!)).toEqual([entry(now - 2 * HOUR, 'down'), entry(now - HOUR)]);
+      expect(kv.store.has('history_migrated')).toBe(false);
+
+      await migrateLegacyHistory(mockEnv, ['main', 'main-eu']);
+      expect(kv.store.has('history_migrated')).toBe(true);
+
+      (kv.list as jest.Mock).mockClear();
+      const result = await (await getHistory(mockEnv, new URLSearchParams({ site: 'main' }))).json();
+      expect(result).toEqual([entry(now - HOUR), entry(now - 2 * HOUR, 'down'), entry(now - 3 * DAY)]);
+      expect(kv.list).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('filtering and pagination', () => {
+    const page = async (query: Record<string, string>) => {
+      const response = await getHistory(mockEnv, new URLSearchParams({ site: 'main', v: '2', ...query }));
+      return { status: response.status, body: (await response.json()) as any };
     };
 
-    (mockEnv.UPTIME_KV.get as jest.Mock).mockResolvedValue(JSON.stringify(mockData));
+    beforeEach(async () => {
+      // One entry an hour for three days, down every sixth hour
+      for (let i = 72; i >= 0; i--) {
+        await appendHistory(mockEnv, 'main', entry(now - i * HOUR, i % 6 === 0 ? 'down' : 'up'));
+      }
+    });
 
-    // Act
-    const response = await getHistory(mockEnv, 'main');
-    const result = await response.json();
+    it('should return an envelope and walk through the pages with the cursor', async () => {
+      const first = await page({ limit: '30' });
+      expect(first.status).toBe(200);
+      expect(first.body.site).toBe('main');
+      expect(first.body.entries).toHaveLength(30);
+      expect(first.body.entries[0].timestamp).toBe(now);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+
+      const second = await page({ limit: '30', cursor: first.body.nextCursor });
+      expect(second.body.entries[0].timestamp).toBe(now - 30 * HOUR);
+
+      const third = await page({ limit: '30', cursor: second.body.nextCursor });
+      expect(third.body.entries).toHaveLength(13);
+      expect(third.body.entries[12].timestamp).toBe(now - 72 * HOUR);
+      expect(third.body.nextCursor).toBeNull();
+    });
 
-    // Assert
-    expect(response.status).toBe(200);
-    expect(Array.isArray(result)).toBe(true);
-    expect((result as any[]).length).toBeLessThanOrEqual(100);
+    it('should filter by time range and status', async () => {
+      const { body } = await page({ from: String(now - 24 * HOUR), to: new Date(now - 12 * HOUR).toISOString(), status: 'down' });
+
+      expect(body.entries.map((data: UptimeData) => data.timestamp)).toEqual([now - 12 * HOUR, now - 18 * HOUR, now - 24 * HOUR]);
+      expect(body.nextCursor).toBeNull();
+    });
+
+    it('should only read the segments of the requested range', async () => {
+      (kv.get as jest.Mock).mockClear();
+
+      await page({ from: String(now - 50 * HOUR), to: String(now - 49 * HOUR) });
+
+      // The segment of that day plus the migration marker
+      expect(kv.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the plain array without the version flag', async () => {
+      const response = await getHistory(mockEnv, new URLSearchParams({ site: 'main', status: 'down', limit: '2' }));
+
+      expect(await response.json()).toEqual([entry(now, 'down'), entry(now - 6 * HOUR, 'down')]);
+    });
+
+    it('should reject invalid parameters', async () => {
+      await expect(page({ status: 'sideways' })).resolves.toEqual({ status: 400, body: { error: 'status must be one of up, degraded, down, maintenance' } });
+      await expect(page({ from: 'yesterday' })).resolves.toEqual({ status: 400, body: { error: 'from and to must be epoch milliseconds or ISO 8601 dates' } });
+      await expect(page({ from: String(now), to: String(now - HOUR) })).resolves.toEqual({ status: 400, body: { error: 'from must not be after to' } });
+      await expect(page({ limit: '0' })).resolves.toEqual({ status: 400, body: { error: 'limit must be an integer between 1 and 1000' } });
+      await expect(page({ cursor: 'not-a-cursor' })).resolves.toEqual({ status: 400, body: { error: 'cursor is invalid' } });
+      await expect(page({ site: '' })).resolves.toEqual({ status: 400, body: { error: 'site parameter required' } });
+    });
   });
 });
@@ -29,6 +29,7 @@ describe('getStatus', () => {
     };
 
     (mockEnv.UPTIME_KV.get as jest.Mock)
+      .mockResolvedValueOnce(null) // monitor registry - defaults
       .mockResolvedValueOnce(JSON.stringify(mockData)) // main
       .mockResolvedValueOnce(JSON.stringify(mockData)) // dashboard
       .mockResolvedValueOnce(JSON.stringify(mockData)) // api
@@ -59,6 +60,7 @@ describe('getStatus', () => {
   it('should handle missing data', async () => {
     // Arrange
     (mockEnv.UPTIME_KV.get as jest.Mock)
+      .mockResolvedValueOnce(null) // monitor registry - defaults
       .mockResolvedValueOnce(null) // main - no data
       .mockResolvedValueOnce('invalid json') // dashboard - invalid JSON
       .mockResolvedValueOnce(JSON.stringify({ status: 'up' })) // api - valid
@@ -75,6 +77,36 @@ describe('getStatus', () => {
     expect(result.cdn).toBeNull();
   });
 
+  it('should report the sites from the monitor registry', async () => {
+    // Arrange
+    const mockData: UptimeData = {
+      status: 'down',
+      responseTime: 50,
+      statusCode: 503,
+      timestamp: 1234567890,
+    };
+
+    (mockEnv.UPTIME_KV.get as jest.Mock)
+      .mockResolvedValueOnce(JSON.stringify([
+        { name: 'status-page', url: 'https://status.example.com', timeout: 5000 },
+        { name: 'paused-site', url: 'https://paused.example.com', timeout: 5000, paused: true },
+      ]))
+      .mockResolvedValueOnce(JSON.stringify(mockData)) // status-page
+      .mockResolvedValueOnce(null); // paused-site
+
+    // Act
+    const response = await getStatus(mockEnv);
+    const result: Record<string, UptimeData | null> = await response.json();
+
+    // Assert
+    expect(mockEnv.UPTIME_KV.get).toHaveBeenCalledWith('monitors');
+    expect(mockEnv.UPTIME_KV.get).not.toHaveBeenCalledWith('current_main');
+    expect(result).toEqual({
+      'status-page': mockData,
+      'paused-site': null,
+    });
+  });
+
   it('should handle KV errors gracefully', async () => {
     // Arrange
     (mockEnv.UPTIME_KV.get as jest.Mock).mockRejectedValue(new Error('KV error'));
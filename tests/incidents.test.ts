@@ -0,0 +1,182 @@
+import worker, { checkSite, type Env, type Incident, type SiteCheck } from '../src/index';
+import { createMemoryKV } from './testUtils';
+
+const mockFetch = jest.fn();
+const originalFetch = globalThis.fetch;
+
+describe('incident tracking', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let mockEnv: Env;
+  let mockSite: SiteCheck;
+  let now: number;
+  const originalDateNow = Date.now;
+
+  const incidents = (): Incident[] =>
+    [...kv.store.entries()].filter(([key]) => key.startsWith('incident_')).map(([, value]) => JSON.parse(value));
+
+  const runCheck = async (response: { ok: boolean; status: number } | Error) => {
+    now += 5 * 60 * 1000;
+    if (response instanceof Error) {
+      mockFetch.mockRejectedValueOnce(response);
+    } else {
+      mockFetch.mockResolvedValueOnce(response);
+    }
+    await checkSite(mockSite, mockEnv);
+  };
+
+  beforeEach(() => {
+    kv = createMemoryKV();
+    mockEnv = { UPTIME_KV: kv };
+    mockSite = { name: 'main', url: 'https://example.com', timeout: 5000 };
+    jest.clearAllMocks();
+    globalThis.fetch = mockFetch;
+
+    now = 1700000000000;
+    Date.now = jest.fn(() => now);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    Date.now = originalDateNow;
+  });
+
+  it('should open an incident on the first failure and resolve it on recovery', async () => {
+    await runCheck({ ok: true, status: 200 });
+    expect(incidents()).toEqual([]);
+
+    await runCheck(new Error('Connection refused'));
+    const startedAt = now;
+    await runCheck({ ok: false, status: 502 });
+
+    expect(incidents()).toEqual([
+      {
+        id: `main-${startedAt}`,
+        site: 'main',
+        status: 'open',
+        severity: 'down',
+        startedAt,
+        cause: { error: 'Connection refused' },
+        checks: 2,
+        lastCheckedAt: now,
+      },
+    ]);
+    expect(kv.store.get('open_incident_main')).toBe(`incident_main_${startedAt}`);
+
+    await runCheck({ ok: true, status: 200 });
+
+    expect(incidents()).toEqual([
+      expect.objectContaining({ status: 'resolved', resolvedAt: now, durationMs: 10 * 60 * 1000, checks: 2 }),
+    ]);
+    expect(kv.store.has('open_incident_main')).toBe(false);
+  });
+
+  it('should track degraded periods as separate incidents', async () => {
+    mockSite.degraded = { threshold: 50 };
+    const slow = () => new Promise(resolve => {
+      now += 100;
+      resolve({ ok: true, status: 200 });
+    });
+
+    await runCheck({ ok: true, status: 200 });
+    mockFetch.mockImplementationOnce(slow);
+    await checkSite(mockSite, mockEnv);
+    const degradedAt = now - 100;
+    now += 5 * 60 * 1000;
+    await runCheck({ ok: false, status: 503 });
+    const downAt = now;
+
+    expect(incidents()).toEqual([
+      expect.objectContaining({ severity: 'degraded', status: 'resolved', resolvedAt: downAt, cause: { statusCode: 200, responseTime: 100 } }),
+      expect.objectContaining({ severity: 'down', status: 'open', startedAt: downAt }),
+    ]);
+    expect(incidents()[0].startedAt).toBe(degradedAt);
+  });
+
+  it('should keep incidents beyond the history TTL', async () => {
+    await runCheck({ ok: false, status: 500 });
+
+    expect(kv.put).toHaveBeenCalledWith(`incident_main_${now}`, expect.any(String), {
+      expirationTtl: 400 * 24 * 60 * 60,
+      metadata: { status: 'open', severity: 'down', startedAt: now },
+    });
+  });
+
+  it('should not touch incidents for steady up checks', async () => {
+    await runCheck({ ok: true, status: 200 });
+    (kv.get as jest.Mock).mockClear();
+
+    await runCheck({ ok: true, status: 200 });
+
+    expect(kv.get).not.toHaveBeenCalledWith('open_incident_main');
+  });
+
+  describe('/api/incidents', () => {
+    const seed = (incident: Partial<Incident> & Pick<Incident, 'site' | 'startedAt'>) => {
+      const full: Incident = {
+        id: `${incident.site}-${incident.startedAt}`,
+        status: incident.resolvedAt ? 'resolved' : 'open',
+        severity: 'down',
+        cause: { statusCode: 500 },
+        checks: 1,
+        lastCheckedAt: incident.startedAt,
+        ...incident,
+      };
+      kv.store.set(`incident_${full.site}_${full.startedAt}`, JSON.stringify(full));
+    };
+
+    const query = async (search: string) => {
+      const response = await worker.fetch(new Request(`https://example.com/api/incidents${search}`), mockEnv);
+      return { response, body: (await response.json()) as any };
+    };
+
+    beforeEach(() => {
+      seed({ site: 'main', startedAt: 1000, resolvedAt: 2000 });
+      seed({ site: 'api', startedAt: 3000, resolvedAt: 4000 });
+      seed({ site: 'main', startedAt: 5000 });
+    });
+
+    it('should list all incidents newest first', async () => {
+      const { response, body } = await query('');
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(body.map((incident: Incident) => incident.id)).toEqual(['main-5000', 'api-3000', 'main-1000']);
+    });
+
+    it('should filter by site and status', async () => {
+      expect((await query('?site=main')).body.map((i: Incident) => i.id)).toEqual(['main-5000', 'main-1000']);
+      expect((await query('?status=open')).body.map((i: Incident) => i.id)).toEqual(['main-5000']);
+      expect((await query('?site=main&status=resolved')).body.map((i: Incident) => i.id)).toEqual(['main-1000']);
+    });
+
+    it('should return incidents overlapping the time window', async () => {
+      expect((await query('?from=2500&to=4500')).body.map((i: Incident) => i.id)).toEqual(['api-3000']);
+      expect((await query('?from=4500')).body.map((i: Incident) => i.id)).toEqual(['main-5000']);
+      expect((await query('?to=1970-01-01T00:00:01.500Z')).body.map((i: Incident) => i.id)).toEqual(['main-1000']);
+    });
+
+    it('should only read the incidents that match', async () => {
+      const resolved = { id: 'cdn-6000', site: 'cdn', status: 'resolved', severity: 'down', startedAt: 6000, resolvedAt: 7000, cause: {}, checks: 1, lastCheckedAt: 6000 };
+      await kv.put('incident_cdn_6000', JSON.stringify(resolved), { metadata: { status: 'resolved', severity: 'down', startedAt: 6000, resolvedAt: 7000 } });
+      (kv.get as jest.Mock).mockClear();
+
+      expect((await query('?status=open')).body.map((i: Incident) => i.id)).toEqual(['main-5000']);
+      expect(kv.get).not.toHaveBeenCalledWith('incident_cdn_6000');
+
+      (kv.get as jest.Mock).mockClear();
+      expect((await query('?to=2500')).body.map((i: Incident) => i.id)).toEqual(['main-1000']);
+      expect(kv.get).toHaveBeenCalledTimes(1);
+
+      (kv.get as jest.Mock).mockClear();
+      expect((await query('?limit=2')).body.map((i: Incident) => i.id)).toEqual(['cdn-6000', 'main-5000']);
+      expect(kv.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject invalid parameters', async () => {
+      expect((await query('?status=closed')).response.status).toBe(400);
+      expect((await query('?from=yesterday')).response.status).toBe(400);
+      expect((await query('?from=5000&to=1000')).response.status).toBe(400);
+      expect((await query('?limit=0')).response.status).toBe(400);
+    });
+  });
+});
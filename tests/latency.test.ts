@@ -0,0 +1,133 @@
+import worker, { type Env, type UptimeData } from '../src/index';
+import { loadAggregates, saveAggregates } from '../src/aggregates';
+import { computeLatencyStats, queryLatency, recordLatency } from '../src/latency';
+import { createMemoryKV } from './testUtils';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const BASE = 1000 * DAY;
+
+const result = (site: string, responseTime: number, timestamp: number, status: UptimeData['status'] = 'up') => ({
+  site,
+  data: { status, responseTime, timestamp },
+});
+
+describe('latency rollups', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    kv = createMemoryKV();
+    mockEnv = { UPTIME_KV: kv };
+    jest.clearAllMocks();
+  });
+
+  // Records the results of one cron run the way the scheduler does
+  const record = async (results: ReturnType<typeof result>[]) => {
+    const aggregates = await loadAggregates(mockEnv);
+    await recordLatency(mockEnv, aggregates, results);
+    await saveAggregates(mockEnv, aggregates);
+    return aggregates;
+  };
+
+  describe('computeLatencyStats', () => {
+    it('should compute nearest-rank percentiles', () => {
+      const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+
+      expect(computeLatencyStats(samples)).toEqual({ count: 100, min: 1, max: 100, mean: 51, p50: 50, p95: 95, p99: 99 });
+      expect(computeLatencyStats([42])).toEqual({ count: 1, min: 42, max: 42, mean: 42, p50: 42, p95: 42, p99: 42 });
+    });
+  });
+
+  describe('recordLatency', () => {
+    it('should buffer samples for the current hour in a single write per run', async () => {
+      await record([result('main', 100, BASE), result('api', 200, BASE), result('cdn', 9999, BASE, 'down')]);
+      await record([result('main', 300, BASE + 5 * 60 * 1000)]);
+
+      expect(kv.put).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(kv.store.get('run_aggregates')!).latency).toEqual({ hour: BASE, samples: { main: [100, 300], api: [200] } });
+    });
+
+    it('should flush hourly and daily buckets when the hour rolls over', async () => {
+      await record([result('main', 100, BASE), result('main', 300, BASE + 1)]);
+      await record([result('main', 200, BASE + HOUR)]);
+      await record([result('main', 400, BASE + 2 * HOUR)]);
+
+      expect(JSON.parse(kv.store.get(`latency_hour_main_${BASE}`)!)).toEqual({
+        site: 'main',
+        resolution: 'hour',
+        start: BASE,
+        count: 2,
+        min: 100,
+        max: 300,
+        mean: 200,
+        p50: 100,
+        p95: 300,
+        p99: 300,
+      });
+      expect(JSON.parse(kv.store.get(`latency_day_main_${BASE}`)!)).toMatchObject({ count: 3, samples: [100, 300, 200] });
+      expect(JSON.parse(kv.store.get('run_aggregates')!).latency).toEqual({ hour: BASE + 2 * HOUR, samples: { main: [400] } });
+    });
+
+    it('should skip runs where every check failed', async () => {
+      const aggregates = await record([result('main', 10000, BASE, 'down')]);
+
+      expect(aggregates.latency).toBeUndefined();
+      expect(kv.put).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('queryLatency', () => {
+    beforeEach(async () => {
+      await record([result('main', 100, BASE)]);
+      await record([result('main', 200, BASE + HOUR)]);
+      await record([result('main', 300, BASE + 2 * HOUR)]);
+    });
+
+    it('should include the hour in progress', async () => {
+      const buckets = await queryLatency(mockEnv, 'main', 'hour', BASE, BASE + 3 * HOUR);
+
+      expect(buckets.map(bucket => [bucket.start, bucket.mean])).toEqual([
+        [BASE, 100],
+        [BASE + HOUR, 200],
+        [BASE + 2 * HOUR, 300],
+      ]);
+    });
+
+    it('should merge the pending hour into the day bucket without exposing samples', async () => {
+      const [day] = await queryLatency(mockEnv, 'main', 'day', BASE, BASE + DAY);
+
+      expect(day).toEqual({ site: 'main', resolution: 'day', start: BASE, count: 3, min: 100, max: 300, mean: 200, p50: 200, p95: 300, p99: 300 });
+    });
+
+    it('should only read buckets inside the range', async () => {
+      (kv.get as jest.Mock).mockClear();
+
+      const buckets = await queryLatency(mockEnv, 'main', 'hour', BASE + HOUR, BASE + HOUR);
+
+      expect(buckets.map(bucket => bucket.start)).toEqual([BASE + HOUR]);
+      expect(kv.get).not.toHaveBeenCalledWith(`latency_hour_main_${BASE}`);
+    });
+  });
+
+  describe('/api/latency', () => {
+    const get = (search: string) => worker.fetch(new Request(`https://example.com/api/latency${search}`), mockEnv);
+
+    it('should return buckets for the requested range', async () => {
+      await record([result('main', 100, BASE)]);
+
+      const response = await get(`?site=main&resolution=hour&from=${BASE}&to=${BASE + HOUR}`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual([expect.objectContaining({ start: BASE, count: 1, p99: 100 })]);
+    });
+
+    it('should validate parameters', async () => {
+      expect((await get('')).status).toBe(400);
+      expect((await get('?site=main&resolution=minute')).status).toBe(400);
+      expect((await get('?site=main&from=later')).status).toBe(400);
+      expect((await get(`?site=main&from=${BASE}&to=${BASE - 1}`)).status).toBe(400);
+      expect((await get(`?site=main&resolution=hour&from=0&to=${BASE}`)).status).toBe(400);
+    });
+  });
+});
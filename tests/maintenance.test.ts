@@ -0,0 +1,170 @@
+import worker, { checkSite, getStatus, type Env, type MaintenanceWindow, type SiteCheck } from '../src/index';
+import { activeMaintenance, maintenanceIntervals, maintenanceSchedule, validateMaintenanceWindow } from '../src/maintenance';
+import { computeUptime } from '../src/uptime';
+import { ADMIN_HEADERS, TEST_ADMIN_KEY, createMemoryKV } from './testUtils';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = 100 * DAY;
+
+const mockFetch = jest.fn();
+const originalFetch = globalThis.fetch;
+
+const request = (path: string, method = 'GET', body?: unknown) =>
+  new Request(`https://example.com${path}`, { method, body: body === undefined ? undefined : JSON.stringify(body), headers: ADMIN_HEADERS });
+
+describe('maintenance windows', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let mockEnv: Env;
+  const site: SiteCheck = { name: 'dashboard', url: 'https://dashboard.example.com', timeout: 5000 };
+  const originalDateNow = Date.now;
+
+  const nightly: MaintenanceWindow = { id: 'nightly', sites: ['dashboard'], startsAt: 2 * HOUR, endsAt: 3 * HOUR, recurrence: 'daily' };
+  const setWindows = (windows: MaintenanceWindow[]) => kv.store.set('maintenance_windows', JSON.stringify(windows));
+
+  beforeEach(() => {
+    kv = createMemoryKV();
+    mockEnv = { UPTIME_KV: kv, ADMIN_API_KEY: TEST_ADMIN_KEY };
+    jest.clearAllMocks();
+    globalThis.fetch = mockFetch;
+    Date.now = jest.fn().mockReturnValue(NOW + 2 * HOUR + 30 * 60 * 1000);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    Date.now = originalDateNow;
+  });
+
+  describe('schedule', () => {
+    it('should find recurring occurrences covering a site', () => {
+      expect(activeMaintenance([nightly], 'dashboard', NOW + 2 * HOUR)).toEqual({ id: 'nightly', sites: ['dashboard'], startsAt: NOW + 2 * HOUR, endsAt: NOW + 3 * HOUR });
+      expect(activeMaintenance([nightly], 'dashboard', NOW + 3 * HOUR)).toBeUndefined();
+      expect(activeMaintenance([nightly], 'main', NOW + 2 * HOUR)).toBeUndefined();
+      expect(activeMaintenance([{ ...nightly, until: NOW - DAY }], 'dashboard', NOW + 2 * HOUR)).toBeUndefined();
+    });
+
+    it('should merge overlapping intervals and clip them to the range', () => {
+      const global: MaintenanceWindow = { id: 'deploy', startsAt: NOW + 150 * 60 * 1000, endsAt: NOW + 4 * HOUR };
+
+      expect(maintenanceIntervals([nightly, global], 'dashboard', NOW - DAY + 150 * 60 * 1000, NOW + DAY)).toEqual([
+        [NOW - DAY + 150 * 60 * 1000, NOW - DAY + 3 * HOUR],
+        [NOW + 2 * HOUR, NOW + 4 * HOUR],
+      ]);
+    });
+
+    it('should split active and upcoming windows', () => {
+      const upcoming: MaintenanceWindow = { id: 'migration', title: 'Database migration', startsAt: NOW + 2 * DAY, endsAt: NOW + 2 * DAY + HOUR };
+      const finished: MaintenanceWindow = { id: 'old', startsAt: 0, endsAt: HOUR };
+
+      const schedule = maintenanceSchedule([upcoming, nightly, finished], NOW + 4 * HOUR);
+
+      expect(schedule.active).toEqual([]);
+      expect(schedule.upcoming.map(period => [period.id, period.startsAt])).toEqual([
+        ['nightly', NOW + DAY + 2 * HOUR],
+        ['migration', NOW + 2 * DAY],
+      ]);
+    });
+  });
+
+  describe('checkSite', () => {
+    it('should store maintenance results without incidents or alerts', async () => {
+      setWindows([nightly]);
+      kv.store.set('alert_channels', JSON.stringify([{ id: 'slack', type: 'slack', url: 'https://hooks.example.com' }]));
+      kv.store.set('last_history_dashboard', JSON.stringify({ status: 'up', responseTime: 1, timestamp: NOW }));
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 502 });
+
+      const data = await checkSite(site, mockEnv);
+
+      expect(data).toMatchObject({ status: 'maintenance', observedStatus: 'down', statusCode: 502, maintenance: 'nightly' });
+      expect(JSON.parse(kv.store.get('current_dashboard')!).status).toBe('maintenance');
+      expect([...kv.store.keys()].some(key => key.startsWith('incident_'))).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve an open incident when maintenance starts', async () => {
+      kv.store.set('last_history_dashboard', JSON.stringify({ status: 'down', responseTime: 1, timestamp: NOW }));
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 502 });
+      Date.now = jest.fn().mockReturnValue(NOW + HOUR);
+      await checkSite(site, mockEnv);
+
+      setWindows([nightly]);
+      Date.now = jest.fn().mockReturnValue(NOW + 2 * HOUR);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 502 });
+      await checkSite(site, mockEnv);
+
+      expect(JSON.parse(kv.store.get(`incident_dashboard_${NOW + HOUR}`)!)).toMatchObject({ status: 'resolved', resolvedAt: NOW + 2 * HOUR });
+    });
+
+    it('should alert when a site comes out of maintenance down', async () => {
+      kv.store.set('alert_channels', JSON.stringify([{ id: 'slack', type: 'slack', url: 'https://hooks.example.com' }]));
+      kv.store.set('last_history_dashboard', JSON.stringify({ status: 'maintenance', responseTime: 1, timestamp: NOW }));
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+      await checkSite(site, mockEnv);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      kv.store.set('last_history_dashboard', JSON.stringify({ status: 'maintenance', responseTime: 1, timestamp: NOW }));
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 }).mockResolvedValueOnce({ ok: true, status: 200 });
+      await checkSite(site, mockEnv);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(String(mockFetch.mock.calls[2][0].url)).toBe('https://hooks.example.com/');
+    });
+  });
+
+  describe('uptime', () => {
+    it('should leave maintenance out of the calculation', () => {
+      const incident = { id: 'x', site: 'dashboard', status: 'resolved' as const, severity: 'down' as const, startedAt: 2 * HOUR, resolvedAt: 4 * HOUR, cause: {}, checks: 1, lastCheckedAt: 2 * HOUR };
+
+      const report = computeUptime({ ...site, createdAt: 0 }, [incident], 0, DAY, DAY, [nightly]);
+
+      expect(report).toMatchObject({ monitoredMs: 23 * HOUR, maintenanceMs: HOUR, downtimeMs: HOUR, outages: 1 });
+    });
+  });
+
+  describe('/api/maintenance', () => {
+    it('should create, list and delete windows', async () => {
+      const created = await worker.fetch(
+        request('/api/maintenance', 'POST', { id: 'deploy', startsAt: '1970-04-11T02:00:00Z', endsAt: '1970-04-11T03:00:00Z', sites: ['dashboard'] }),
+        mockEnv
+      );
+
+      expect(created.status).toBe(201);
+      expect(await created.json()).toEqual({ id: 'deploy', startsAt: NOW + 2 * HOUR, endsAt: NOW + 3 * HOUR, sites: ['dashboard'] });
+      expect((await worker.fetch(request('/api/maintenance', 'POST', { id: 'deploy', startsAt: 1, endsAt: 2 }), mockEnv)).status).toBe(409);
+
+      const updated = await worker.fetch(request('/api/maintenance/deploy', 'PUT', { startsAt: 1, endsAt: 2 }), mockEnv);
+      expect(await updated.json()).toEqual({ id: 'deploy', startsAt: 1, endsAt: 2 });
+
+      expect((await worker.fetch(request('/api/maintenance/deploy', 'DELETE'), mockEnv)).status).toBe(204);
+      expect(await (await worker.fetch(request('/api/maintenance'), mockEnv)).json()).toEqual([]);
+    });
+
+    it('should reject invalid windows', () => {
+      const { errors } = validateMaintenanceWindow({ id: 'Bad', sites: [], startsAt: 'soon', endsAt: 5, recurrence: 'hourly' });
+
+      expect(errors).toEqual([
+        'id must be 1-64 lowercase letters, digits or dashes and start with a letter or digit',
+        'sites must be a non-empty array of monitor names',
+        'startsAt and endsAt must be epoch milliseconds or ISO 8601 dates',
+        'recurrence must be one of daily, weekly',
+      ]);
+      expect(validateMaintenanceWindow({ id: 'long', startsAt: 0, endsAt: DAY, recurrence: 'daily' }).errors).toEqual([
+        'a recurring window must be shorter than its recurrence period',
+      ]);
+      expect(validateMaintenanceWindow({ id: 'once', startsAt: 0, endsAt: HOUR, until: DAY }).errors).toEqual([
+        'until must be a date after startsAt and is only supported for recurring windows',
+      ]);
+    });
+
+    it('should show active and upcoming windows in /api/status', async () => {
+      setWindows([nightly, { id: 'migration', startsAt: NOW + 2 * DAY, endsAt: NOW + 2 * DAY + HOUR }]);
+
+      const body: any = await (await getStatus(mockEnv)).json();
+
+      expect(body._maintenance).toEqual({
+        active: [{ id: 'nightly', sites: ['dashboard'], startsAt: NOW + 2 * HOUR, endsAt: NOW + 3 * HOUR }],
+        upcoming: [{ id: 'migration', startsAt: NOW + 2 * DAY, endsAt: NOW + 2 * DAY + HOUR }],
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import worker, { type Env, type UptimeData } from '../src/index';
+import { saveAggregates, type RunAggregates } from '../src/aggregates';
+import { recordCheckCounts, renderMetrics } from '../src/metrics';
+import { createExecutionContext, createMemoryKV } from './testUtils';
+
+const MINUTE = 60 * 1000;
+const originalFetch = globalThis.fetch;
+
+describe('/metrics', () => {
+  const now = Date.UTC(2025, 5, 20, 12, 0);
+  let kv: ReturnType<typeof createMemoryKV>;
+  let env: Env;
+
+  const scrape = async () => {
+    const response = await worker.fetch(new Request('https://status.example.com/metrics'), env);
+    return { response, lines: (await response.text()).split('\n') };
+  };
+
+  beforeEach(() => {
+    kv = createMemoryKV({
+      monitors: JSON.stringify([
+        { name: 'main', url: 'https://teyvatarchive.online/', timeout: 5000 },
+        { name: 'api', url: 'https://api.teyvatarchive.online/', timeout: 5000 },
+      ]),
+    });
+    env = { UPTIME_KV: kv };
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should expose the last check and counters of scheduled runs', async () => {
+    globalThis.fetch = jest.fn(async (url: string) => new Response(null, { status: url.includes('api.') ? 503 : 200 })) as unknown as typeof fetch;
+    await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+    jest.spyOn(Date, 'now').mockReturnValue(now + 5 * MINUTE);
+    await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+
+    const { response, lines } = await scrape();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/openmetrics-text; version=1.0.0; charset=utf-8');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '# TYPE teyvat_monitor_up gauge',
+        'teyvat_monitor_up{site="main"} 1',
+        'teyvat_monitor_up{site="api"} 0',
+        'teyvat_monitor_status_code{site="api"} 503',
+        expect.stringMatching(/^teyvat_monitor_response_time_ms\{site="main"\} \d+$/),
+        '# UNIT teyvat_monitor_last_check_timestamp_seconds seconds',
+        `teyvat_monitor_last_check_timestamp_seconds{site="main"} ${(now + 5 * MINUTE) / 1000}`,
+        '# TYPE teyvat_monitor_checks counter',
+        'teyvat_monitor_checks_total{site="main"} 2',
+        `teyvat_monitor_checks_created{site="main"} ${now / 1000}`,
+        'teyvat_monitor_failures_total{site="main"} 0',
+        'teyvat_monitor_failures_total{site="api"} 2',
+      ])
+    );
+    expect(lines.slice(-2)).toEqual(['# EOF', '']);
+  });
+
+  it('should leave out monitors that were never checked or have been deleted', async () => {
+    const aggregates: RunAggregates = {};
+    recordCheckCounts(aggregates, [{ site: 'wiki', data: { status: 'up', responseTime: 80, timestamp: now } }]);
+    await saveAggregates(env, aggregates);
+
+    const { lines } = await scrape();
+
+    expect(lines.filter(line => !line.startsWith('#') && line !== '')).toEqual([]);
+  });
+
+  it('should report what the probe saw during maintenance without counting failures', async () => {
+    const data: UptimeData = { status: 'maintenance', observedStatus: 'down', maintenance: 'deploy', responseTime: 0, timestamp: now };
+    const aggregates: RunAggregates = {};
+    recordCheckCounts(aggregates, [{ site: 'main', data }]);
+
+    const metrics = renderMetrics({ main: data }, aggregates.counters!);
+
+    expect(metrics).toContain('teyvat_monitor_up{site="main"} 0');
+    expect(metrics).toContain('teyvat_monitor_maintenance{site="main"} 1');
+    expect(metrics).toContain('teyvat_monitor_failures_total{site="main"} 0');
+  });
+
+  it('should escape label values', () => {
+    const metrics = renderMetrics({ 'a"b\\c': { status: 'degraded', responseTime: 900, timestamp: now } }, {});
+
+    expect(metrics).toContain('teyvat_monitor_degraded{site="a\\"b\\\\c"} 1');
+  });
+});
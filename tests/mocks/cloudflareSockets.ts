@@ -0,0 +1,32 @@
+/// <reference types="node" />
+import { createConnection } from 'net';
+import { Duplex } from 'stream';
+
+// Stand-in for the Workers `cloudflare:sockets` module backed by Node sockets,
+// so TCP monitors can be tested against real local servers
+export function connect(address: SocketAddress | string): Socket {
+  const { hostname, port } = typeof address === 'string' ? { hostname: address.split(':')[0], port: Number(address.split(':')[1]) } : address;
+  const socket = createConnection({ host: hostname, port });
+  socket.on('error', () => undefined);
+
+  const opened = new Promise<SocketInfo>((resolve, reject) => {
+    socket.once('connect', () => resolve({ remoteAddress: `${hostname}:${port}`, localAddress: `${socket.localAddress}:${socket.localPort}` }));
+    socket.once('error', reject);
+  });
+  const closed = new Promise<void>(resolve => socket.once('close', () => resolve()));
+  const { readable, writable } = Duplex.toWeb(socket);
+
+  return {
+    readable,
+    writable,
+    opened,
+    closed,
+    close: async () => {
+      socket.destroy();
+      await closed;
+    },
+    startTls: () => {
+      throw new Error('startTls is not supported in tests');
+    },
+  } as unknown as Socket;
+}
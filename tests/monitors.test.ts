@@ -0,0 +1,221 @@
+import worker, { MONITORED_SITES, loadMonitors, validateMonitor, type Env } from '../src/index';
+import { ADMIN_HEADERS, TEST_ADMIN_KEY, createExecutionContext, createMemoryKV } from './testUtils';
+
+const mockFetch = jest.fn();
+const originalFetch = globalThis.fetch;
+
+const request = (path: string, method = 'GET', body?: unknown) =>
+  new Request(`https://example.com${path}`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    headers: body === undefined ? ADMIN_HEADERS : { ...ADMIN_HEADERS, 'Content-Type': 'application/json' },
+  });
+
+describe('monitor registry', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    kv = createMemoryKV();
+    mockEnv = { UPTIME_KV: kv, ADMIN_API_KEY: TEST_ADMIN_KEY };
+    jest.clearAllMocks();
+    globalThis.fetch = mockFetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('loadMonitors', () => {
+    it('should fall back to the built-in sites when the registry is empty', async () => {
+      const monitors = await loadMonitors(mockEnv);
+
+      expect(monitors).toEqual(MONITORED_SITES);
+      expect(kv.put).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the built-in sites when the registry is invalid JSON', async () => {
+      kv.store.set('monitors', 'invalid json');
+
+      const monitors = await loadMonitors(mockEnv);
+
+      expect(monitors).toEqual(MONITORED_SITES);
+    });
+  });
+
+  describe('validateMonitor', () => {
+    it('should accept a valid monitor', () => {
+      const result = validateMonitor({ name: 'status', url: 'https://status.example.com', timeout: 5000 });
+
+      expect(result.errors).toEqual([]);
+      expect(result.monitor).toEqual({ name: 'status', url: 'https://status.example.com', timeout: 5000 });
+    });
+
+    it('should report every invalid field', () => {
+      const result = validateMonitor({ name: 'bad_name', url: 'ftp://example.com', timeout: 0, paused: 'yes' });
+
+      expect(result.monitor).toBeUndefined();
+      expect(result.errors).toHaveLength(4);
+    });
+
+    it('should validate content assertions', () => {
+      const assertions = [{ type: 'jsonPath', path: '$.status', equals: 'ok' }];
+
+      expect(validateMonitor({ name: 'health', url: 'https://example.com', timeout: 1000, assertions }).monitor).toEqual({
+        name: 'health',
+        url: 'https://example.com',
+        timeout: 1000,
+        assertions,
+      });
+      expect(validateMonitor({ name: 'health', url: 'https://example.com', timeout: 1000, assertions: [{ type: 'regex', pattern: '(' }] }).errors).toEqual([
+        'assertions[0].pattern is not a valid regular expression',
+      ]);
+    });
+
+    it('should reject non-object input', () => {
+      expect(validateMonitor(null).errors).toEqual(['Monitor must be a JSON object']);
+      expect(validateMonitor([]).errors).toEqual(['Monitor must be a JSON object']);
+    });
+  });
+
+  describe('/api/monitors', () => {
+    it('should list the current monitors', async () => {
+      const response = await worker.fetch(request('/api/monitors'), mockEnv);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual(MONITORED_SITES);
+    });
+
+    it('should create a monitor', async () => {
+      const monitor = { name: 'status', url: 'https://status.example.com', timeout: 5000 };
+
+      const response = await worker.fetch(request('/api/monitors', 'POST', monitor), mockEnv);
+
+      expect(response.status).toBe(201);
+      expect(await response.json()).toEqual({ ...monitor, createdAt: expect.any(Number) });
+      expect(JSON.parse(kv.store.get('monitors')!)).toEqual([...MONITORED_SITES, { ...monitor, createdAt: expect.any(Number) }]);
+    });
+
+    it('should reject invalid monitors with details', async () => {
+      const response = await worker.fetch(request('/api/monitors', 'POST', { name: 'status' }), mockEnv);
+      const result: any = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(result.error).toBe('Invalid monitor');
+      expect(result.details).toEqual(expect.arrayContaining(['url must be a string']));
+      expect(kv.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate monitor names', async () => {
+      const response = await worker.fetch(
+        request('/api/monitors', 'POST', { name: 'main', url: 'https://example.com', timeout: 1000 }),
+        mockEnv
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should get, update and delete a single monitor', async () => {
+      const getResponse = await worker.fetch(request('/api/monitors/api'), mockEnv);
+      expect(await getResponse.json()).toEqual(MONITORED_SITES[2]);
+
+      const putResponse = await worker.fetch(
+        request('/api/monitors/api', 'PUT', { url: 'https://api.example.com', timeout: 2000 }),
+        mockEnv
+      );
+      expect(putResponse.status).toBe(200);
+      expect(await putResponse.json()).toEqual({ name: 'api', url: 'https://api.example.com', timeout: 2000 });
+
+      const deleteResponse = await worker.fetch(request('/api/monitors/api', 'DELETE'), mockEnv);
+      expect(deleteResponse.status).toBe(204);
+
+      const names = (await loadMonitors(mockEnv)).map(m => m.name);
+      expect(names).toEqual(['main', 'dashboard', 'cdn']);
+    });
+
+    it('should not allow renaming through PUT', async () => {
+      const response = await worker.fetch(
+        request('/api/monitors/api', 'PUT', { name: 'other', url: 'https://api.example.com', timeout: 2000 }),
+        mockEnv
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for unknown monitors', async () => {
+      expect((await worker.fetch(request('/api/monitors/unknown'), mockEnv)).status).toBe(404);
+      expect((await worker.fetch(request('/api/monitors/unknown', 'DELETE'), mockEnv)).status).toBe(404);
+      expect((await worker.fetch(request('/api/monitors/unknown/pause', 'POST'), mockEnv)).status).toBe(404);
+    });
+
+    it('should keep history when deleting a monitor', async () => {
+      kv.store.set('history_day_cdn_1209600000', JSON.stringify([{ status: 'up', responseTime: 1, timestamp: 1234567890 }]));
+
+      await worker.fetch(request('/api/monitors/cdn', 'DELETE'), mockEnv);
+
+      expect(kv.store.has('history_day_cdn_1209600000')).toBe(true);
+      expect(kv.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pausing monitors', () => {
+    it('should skip paused monitors in the scheduled handler and resume them', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200 });
+
+      const pauseResponse = await worker.fetch(request('/api/monitors/cdn/pause', 'POST'), mockEnv);
+      expect(await pauseResponse.json()).toEqual({ ...MONITORED_SITES[3], paused: true });
+
+      await worker.scheduled({} as ScheduledEvent, mockEnv, createExecutionContext());
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch).not.toHaveBeenCalledWith(MONITORED_SITES[3].url, expect.anything());
+
+      mockFetch.mockClear();
+      const resumeResponse = await worker.fetch(request('/api/monitors/cdn/resume', 'POST'), mockEnv);
+      expect(await resumeResponse.json()).toEqual(MONITORED_SITES[3]);
+
+      // Next run, when every default five-minute monitor is due again
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60 * 1000);
+      await worker.scheduled({} as ScheduledEvent, mockEnv, createExecutionContext());
+      now.mockRestore();
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should keep a monitor paused when an update leaves paused out', async () => {
+      await worker.fetch(request('/api/monitors/cdn/pause', 'POST'), mockEnv);
+      const createdAt = Date.now() - 60 * 1000;
+      kv.store.set('monitors', JSON.stringify((await loadMonitors(mockEnv)).map(monitor => ({ ...monitor, createdAt }))));
+
+      const update = await worker.fetch(request('/api/monitors/cdn', 'PUT', { url: 'https://cdn.example.com', timeout: 2000 }), mockEnv);
+      expect(await update.json()).toEqual({ name: 'cdn', url: 'https://cdn.example.com', timeout: 2000, paused: true, createdAt });
+
+      const resume = await worker.fetch(request('/api/monitors/cdn', 'PUT', { url: 'https://cdn.example.com', timeout: 2000, paused: false }), mockEnv);
+      expect(await resume.json()).toEqual({ name: 'cdn', url: 'https://cdn.example.com', timeout: 2000, createdAt });
+    });
+
+    it('should resolve the open incident of a monitor that is paused or deleted', async () => {
+      const startedAt = Date.now() - 60 * 60 * 1000;
+      for (const site of ['cdn', 'api']) {
+        const incident = { id: `${site}-${startedAt}`, site, status: 'open', severity: 'down', startedAt, cause: {}, checks: 1, lastCheckedAt: startedAt };
+        kv.store.set(`incident_${site}_${startedAt}`, JSON.stringify(incident));
+        kv.store.set(`open_incident_${site}`, `incident_${site}_${startedAt}`);
+      }
+
+      await worker.fetch(request('/api/monitors/cdn/pause', 'POST'), mockEnv);
+      await worker.fetch(request('/api/monitors/api', 'DELETE'), mockEnv);
+
+      for (const site of ['cdn', 'api']) {
+        expect(JSON.parse(kv.store.get(`incident_${site}_${startedAt}`)!)).toMatchObject({ status: 'resolved', resolvedAt: expect.any(Number) });
+        expect(kv.store.has(`open_incident_${site}`)).toBe(false);
+      }
+    });
+
+    it('should keep paused monitors in /api/status', async () => {
+      await worker.fetch(request('/api/monitors/cdn/pause', 'POST'), mockEnv);
+
+      const response = await worker.fetch(request('/api/status'), mockEnv);
+      const result = await response.json();
+
+      expect(Object.keys(result as object)).toEqual(['main', 'dashboard', 'api', 'cdn']);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import worker, { type Env, type Incident, type UptimeData } from '../src/index';
+import { escapeHtml } from '../src/utils';
+import { createMemoryKV, firstChecks } from './testUtils';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1000 * DAY + 12 * 60 * 60 * 1000;
+
+describe('status page', () => {
+  let kv: ReturnType<typeof createMemoryKV>;
+  let mockEnv: Env;
+  const originalDateNow = Date.now;
+
+  const current = (site: string, data: Partial<UptimeData>) =>
+    kv.store.set(`current_${site}`, JSON.stringify({ status: 'up', responseTime: 120, statusCode: 200, timestamp: NOW - 60000, ...data }));
+
+  const render = async () => {
+    const response = await worker.fetch(new Request('https://example.com/'), mockEnv);
+    return { response, html: await response.text() };
+  };
+
+  beforeEach(() => {
+    kv = createMemoryKV(firstChecks(NOW - 100 * DAY));
+    mockEnv = { UPTIME_KV: kv };
+    Date.now = jest.fn().mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    Date.now = originalDateNow;
+  });
+
+  it('should render every monitor with its current status', async () => {
+    ['main', 'dashboard', 'api', 'cdn'].forEach(site => current(site, {}));
+
+    const { response, html } = await render();
+
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=60');
+    expect(html).toContain('All systems operational');
+    expect(html.match(/<section class="site"/g)).toHaveLength(4);
+    expect(html).toContain('<dd data-field="responseTime">120 ms</dd>');
+    expect(html).toContain('1972-09-27 11:59 UTC');
+    expect(html.match(/class="bar up"/g)).toHaveLength(4 * 90);
+  });
+
+  it('should show partial outages, incidents and daily bars', async () => {
+    current('main', { status: 'down', error: 'Connection refused' });
+    current('api', {});
+    const incident: Incident = {
+      id: `main-${NOW - 6 * 60 * 60 * 1000}`,
+      site: 'main',
+      status: 'open',
+      severity: 'down',
+      startedAt: NOW - 6 * 60 * 60 * 1000,
+      cause: { error: '<script>alert(1)</script>' },
+      checks: 72,
+      lastCheckedAt: NOW,
+    };
+    kv.store.set(`incident_main_${incident.startedAt}`, JSON.stringify(incident));
+
+    const { html } = await render();
+
+    expect(html).toContain('Partial outage');
+    expect(html).toContain('<span class="status down" data-field="status">down</span>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain('ongoing');
+    expect(html).toContain('class="bar down"');
+  });
+
+  it('should mark paused monitors and days without data', async () => {
+    kv.store.set('monitors', JSON.stringify([{ name: 'new-site', url: 'https://example.com', timeout: 1000, paused: true, createdAt: NOW - DAY }]));
+
+    const { html } = await render();
+
+    expect(html).toContain('<span class="status paused" data-field="status">paused</span>');
+    expect(html.match(/class="bar none"/g)).toHaveLength(88);
+    expect(html).toContain('No data yet');
+    expect(html).toContain('No incidents in the last 90 days.');
+  });
+
+  it('should escape HTML special characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
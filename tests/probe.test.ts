@@ -0,0 +1,117 @@
+import { checkRedirectPolicy, fetchWithRedirects, isExpectedStatus, validateDegradedPolicy, validateProbeOptions } from '../src/probe';
+import type { HttpCheck } from '../src/index';
+
+const mockFetch = jest.fn();
+const originalFetch = globalThis.fetch;
+
+const redirectTo = (location: string, status = 301) => new Response(null, { status, headers: { Location: location } });
+
+describe('HTTP probe', () => {
+  let site: HttpCheck;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    globalThis.fetch = mockFetch;
+    site = { name: 'test-site', url: 'https://example.com/', timeout: 5000 };
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('fetchWithRedirects', () => {
+    it('should follow and record the redirect chain', async () => {
+      mockFetch
+        .mockResolvedValueOnce(redirectTo('/login'))
+        .mockResolvedValueOnce(redirectTo('https://auth.example.com/', 302))
+        .mockResolvedValueOnce(new Response('ok'));
+
+      const probe = await fetchWithRedirects(site, {});
+
+      expect(probe.response.status).toBe(200);
+      expect(probe.finalUrl).toBe('https://auth.example.com/');
+      expect(probe.redirects).toEqual(['https://example.com/login', 'https://auth.example.com/']);
+      expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://example.com/login', { redirect: 'manual' });
+    });
+
+    it('should not follow redirects in manual mode', async () => {
+      site.redirect = 'manual';
+      mockFetch.mockResolvedValueOnce(redirectTo('/moved'));
+
+      const probe = await fetchWithRedirects(site, {});
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(probe.response.status).toBe(301);
+      expect(probe.finalUrl).toBe('https://example.com/');
+      expect(probe.redirects).toEqual(['https://example.com/moved']);
+    });
+
+    it('should give up after too many redirects', async () => {
+      mockFetch.mockImplementation(async () => redirectTo('/loop'));
+
+      await expect(fetchWithRedirects(site, {})).rejects.toThrow('Too many redirects (more than 10)');
+    });
+  });
+
+  describe('isExpectedStatus', () => {
+    it('should default to 2xx', () => {
+      expect(isExpectedStatus(new Response(null, { status: 204 }))).toBe(true);
+      expect(isExpectedStatus(new Response(null, { status: 401 }))).toBe(false);
+    });
+
+    it('should match codes and ranges', () => {
+      const expected = [401, '300-399'];
+
+      expect(isExpectedStatus(new Response(null, { status: 401 }), expected)).toBe(true);
+      expect(isExpectedStatus(new Response(null, { status: 302 }), expected)).toBe(true);
+      expect(isExpectedStatus(new Response(null, { status: 200 }), expected)).toBe(false);
+    });
+  });
+
+  describe('checkRedirectPolicy', () => {
+    it('should reject any redirect in fail mode', () => {
+      site.redirect = 'fail';
+
+      expect(checkRedirectPolicy(site, { response: new Response(), finalUrl: site.url, redirects: ['https://parked.example/'] })).toBe(
+        'Unexpected redirect to https://parked.example/'
+      );
+      expect(checkRedirectPolicy(site, { response: new Response(), finalUrl: site.url, redirects: [] })).toBeUndefined();
+    });
+
+    it('should require the expected redirect target', () => {
+      site.redirect = 'mustRedirectTo';
+      site.redirectTo = 'https://www.example.com';
+
+      expect(checkRedirectPolicy(site, { response: new Response(), finalUrl: site.url, redirects: [] })).toBe(
+        'Expected redirect to https://www.example.com/ but the site did not redirect'
+      );
+      expect(
+        checkRedirectPolicy(site, { response: new Response(), finalUrl: 'https://parked.example/', redirects: ['https://parked.example/'] })
+      ).toBe('Redirected to https://parked.example/ instead of https://www.example.com/');
+      expect(
+        checkRedirectPolicy(site, { response: new Response(), finalUrl: 'https://www.example.com/', redirects: ['https://www.example.com/'] })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('validateProbeOptions', () => {
+    it('should accept valid options', () => {
+      expect(validateProbeOptions({ expectedStatus: [401, '200-299'], redirect: 'mustRedirectTo', redirectTo: 'https://example.com' })).toEqual([]);
+    });
+
+    it('should reject invalid options', () => {
+      expect(validateProbeOptions({ expectedStatus: [99, '300-200'] })).toHaveLength(1);
+      expect(validateProbeOptions({ redirect: 'sometimes' })).toEqual(['redirect must be one of follow, manual, fail, mustRedirectTo']);
+      expect(validateProbeOptions({ redirect: 'mustRedirectTo' })).toEqual(['redirectTo must be a valid URL when redirect is mustRedirectTo']);
+      expect(validateProbeOptions({ redirectTo: 'https://example.com' })).toEqual(['redirectTo is only allowed when redirect is mustRedirectTo']);
+    });
+
+    it('should require degraded thresholds below the timeout', () => {
+      expect(validateDegradedPolicy({ timeout: 10000, degraded: { threshold: 8000, countsAsUp: false } })).toEqual([]);
+      expect(validateDegradedPolicy({ timeout: 10000, degraded: { threshold: 10000, countsAsUp: 'no' } })).toEqual([
+        'degraded.threshold must be a positive integer below the timeout in milliseconds',
+        'degraded.countsAsUp must be a boolean',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import worker, { validateMonitor, type Env, type PushCheck } from '../src/index';
+import { probePush } from '../src/push';
+import { ADMIN_HEADERS, TEST_ADMIN_KEY, createExecutionContext, createMemoryKV } from './testUtils';
+
+const MINUTE = 60 * 1000;
+const TOKEN = 'scraper-0123456789abcdef';
+
+describe('Push monitors', () => {
+  const now = Date.UTC(2025, 5, 20, 12, 0);
+  const site: PushCheck = { type: 'push', name: 'scraper', token: TOKEN, heartbeatInterval: 60 * MINUTE, gracePeriod: 10 * MINUTE, createdAt: now - 5 * MINUTE };
+  let kv: ReturnType<typeof createMemoryKV>;
+  let env: Env;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+    kv = createMemoryKV({ monitors: JSON.stringify([site]) });
+    env = { UPTIME_KV: kv, ADMIN_API_KEY: TEST_ADMIN_KEY };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const push = (query = '', init?: RequestInit) => worker.fetch(new Request(`https://status.example.com/api/push/${TOKEN}${query}`, init), env);
+
+  it('should only record the heartbeat and leave the status to the next scheduled check', async () => {
+    const response = await push('?message=scraped%20412%20characters');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ monitor: 'scraper', heartbeat: { status: 'up', message: 'scraped 412 characters', timestamp: now } });
+    expect([...kv.store.keys()]).toEqual(['monitors', 'heartbeat_scraper']);
+
+    await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+
+    expect(JSON.parse(kv.store.get('current_scraper')!)).toMatchObject({ status: 'up', lastHeartbeat: now, message: 'scraped 412 characters' });
+    const status: any = await (await worker.fetch(new Request('https://status.example.com/api/status'), env)).json();
+    expect(status.scraper).toMatchObject({ status: 'up', lastHeartbeat: now });
+  });
+
+  it('should accept a failure reported in a JSON body', async () => {
+    const response = await push('', { method: 'POST', body: JSON.stringify({ status: 'down', message: 'login to the wiki failed' }) });
+
+    expect(((await response.json()) as any).heartbeat).toEqual({ status: 'down', message: 'login to the wiki failed', timestamp: now });
+    await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+    expect(JSON.parse(kv.store.get('current_scraper')!)).toMatchObject({ status: 'down', error: 'login to the wiki failed' });
+  });
+
+  it('should reject unknown tokens and invalid heartbeats', async () => {
+    const unknown = await worker.fetch(new Request('https://status.example.com/api/push/not-a-real-token-at-all'), env);
+    expect(unknown.status).toBe(404);
+
+    const invalid = await push('?status=maybe');
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: 'Invalid heartbeat', details: ['status must be one of up, down'] });
+
+    expect((await push('', { method: 'DELETE' })).status).toBe(405);
+    expect(kv.store.has('heartbeat_scraper')).toBe(false);
+  });
+
+  it('should go down once the interval and grace period pass without a heartbeat', async () => {
+    await expect(probePush(site, env)).resolves.toEqual({ status: 'up', responseTime: 0, timestamp: now });
+    await expect(probePush({ ...site, createdAt: now - 71 * MINUTE }, env)).resolves.toMatchObject({ status: 'down', error: 'No heartbeat received yet' });
+
+    kv.store.set('heartbeat_scraper', JSON.stringify({ status: 'up', timestamp: now - 69 * MINUTE }));
+    await expect(probePush(site, env)).resolves.toMatchObject({ status: 'up', lastHeartbeat: now - 69 * MINUTE });
+
+    kv.store.set('heartbeat_scraper', JSON.stringify({ status: 'up', timestamp: now - 75 * MINUTE }));
+    await expect(probePush(site, env)).resolves.toMatchObject({ status: 'down', error: 'No heartbeat for 1h 15m' });
+  });
+
+  it('should mark overdue monitors down from the scheduled handler', async () => {
+    kv.store.set('heartbeat_scraper', JSON.stringify({ status: 'up', timestamp: now - 2 * 60 * MINUTE }));
+
+    await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+
+    expect(JSON.parse(kv.store.get('current_scraper')!)).toMatchObject({ status: 'down', error: 'No heartbeat for 2h' });
+    expect(JSON.parse(kv.store.get('run_aggregates')!).latency).toBeUndefined();
+  });
+
+  it('should validate push monitors and generate a token', () => {
+    const { monitor } = validateMonitor({ type: 'push', name: 'images', heartbeatInterval: 15 * MINUTE });
+    expect(monitor).toEqual({ type: 'push', name: 'images', token: expect.stringMatching(/^[0-9a-f]{32}$/), heartbeatInterval: 15 * MINUTE });
+
+    expect(validateMonitor({ type: 'push', name: 'images', token: 'short', heartbeatInterval: 1000, gracePeriod: -1, timeout: 3000, url: 'https://teyvatarchive.online' }).errors).toEqual([
+      'token must be 16-128 letters, digits, dashes or underscores',
+      'heartbeatInterval must be an integer between 60000 and 2678400000 milliseconds',
+      'gracePeriod must be an integer between 0 and 2678400000 milliseconds',
+      'url is only supported for http monitors',
+      'timeout is not supported for push monitors',
+    ]);
+  });
+
+  it('should keep the token when a push monitor is updated without one', async () => {
+    const response = await worker.fetch(
+      new Request('https://status.example.com/api/monitors/scraper', { method: 'PUT', body: JSON.stringify({ type: 'push', heartbeatInterval: 30 * MINUTE }), headers: ADMIN_HEADERS }),
+      env
+    );
+
+    expect(await response.json()).toMatchObject({ token: TOKEN, heartbeatInterval: 30 * MINUTE, createdAt: site.createdAt });
+  });
+});
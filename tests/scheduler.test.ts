@@ -0,0 +1,157 @@
+import worker, { validateMonitor, type Env, type HttpCheck } from '../src/index';
+import { planTick, recordTick } from '../src/scheduler';
+import { createExecutionContext, createMemoryKV } from './testUtils';
+
+const MINUTE = 60 * 1000;
+
+describe('scheduler', () => {
+  const now = Date.UTC(2025, 5, 20, 12, 0);
+  const monitor = (name: string, interval?: number): HttpCheck => ({ name, url: `https://${name}.teyvatarchive.online`, timeout: 5000, ...(interval ? { interval } : {}) });
+
+  it('should run monitors that have never run and skip those that ran in their slot', () => {
+    const sites = [monitor('main', 1), monitor('cdn', 15)];
+
+    const first = planTick(sites, { lastRuns: {} }, now);
+    expect(first.due.map(site => site.name)).toEqual(['main', 'cdn']);
+    expect(first).toMatchObject({ overdue: [], skipped: [] });
+
+    const second = planTick(sites, { lastRuns: { main: now, cdn: now } }, now + MINUTE);
+    expect(second.due.map(site => site.name)).toEqual(['main']);
+    expect(second.skipped).toEqual(['cdn']);
+  });
+
+  it('should run each monitor once per interval', () => {
+    const site = monitor('cdn', 15);
+    const lastRuns: Record<string, number> = {};
+    const runs: number[] = [];
+
+    for (let tick = now; tick < now + 60 * MINUTE; tick += MINUTE) {
+      if (planTick([site], { lastRuns }, tick).due.length > 0) {
+        runs.push(tick);
+        lastRuns.cdn = tick;
+      }
+    }
+
+    // The first run happens right away, after that the monitor settles on its slot
+    expect(runs.length).toBeGreaterThanOrEqual(4);
+    expect(runs.length).toBeLessThanOrEqual(5);
+    runs.slice(2).forEach((run, index) => expect(run - runs[index + 1]).toBe(15 * MINUTE));
+  });
+
+  it('should spread monitors with the same interval over several cron runs', () => {
+    const sites = Array.from({ length: 20 }, (_, index) => monitor(`site-${index}`, 15));
+    const lastRuns = Object.fromEntries(sites.map(site => [site.name, now - 15 * MINUTE]));
+    const ticks = new Set<number>();
+
+    for (let tick = now; tick < now + 15 * MINUTE; tick += MINUTE) {
+      for (const site of planTick(sites, { lastRuns }, tick).due) {
+        ticks.add(tick);
+        lastRuns[site.name] = tick;
+      }
+    }
+
+    expect(ticks.size).toBeGreaterThan(3);
+  });
+
+  it('should run two monitors with the default interval on different cron runs', () => {
+    const sites = [monitor('main'), monitor('api')];
+    // Both ran just before, so each next runs when its own slot starts
+    const lastRuns: Record<string, number> = { main: now - 1, api: now - 1 };
+    const runs: Record<string, number[]> = { main: [], api: [] };
+
+    for (let tick = now; tick < now + 5 * MINUTE; tick += MINUTE) {
+      for (const site of planTick(sites, { lastRuns }, tick).due) {
+        runs[site.name].push(tick);
+        lastRuns[site.name] = tick;
+      }
+    }
+
+    expect(runs.main).toHaveLength(1);
+    expect(runs.api).toHaveLength(1);
+    expect(runs.main[0]).not.toBe(runs.api[0]);
+  });
+
+  it('should report monitors that missed their slot as overdue', () => {
+    const site = monitor('api');
+    const lastRun = now - 12 * MINUTE;
+
+    const plan = planTick([site], { lastRuns: { api: lastRun } }, now);
+
+    expect(plan.due).toEqual([site]);
+    expect(plan.overdue).toEqual(['api']);
+  });
+
+  it('should only check due monitors from the scheduled handler and record the run', async () => {
+    const kv = createMemoryKV({ monitors: JSON.stringify([monitor('main', 1), monitor('cdn', 60)]) });
+    const env: Env = { UPTIME_KV: kv };
+    const fetchMock = jest.fn().mockResolvedValue(new Response('ok'));
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = fetchMock;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    try {
+      await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+      clock.mockReturnValue(now + MINUTE);
+      await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(JSON.parse(kv.store.get('schedule')!)).toEqual({
+        lastRuns: { main: now + MINUTE, cdn: now },
+        lastTick: { timestamp: now + MINUTE, ran: ['main'], overdue: [], skipped: ['cdn'] },
+      });
+
+      const response = await worker.fetch(new Request('https://status.example.com/api/schedule'), env);
+      const body: any = await response.json();
+      expect(body.monitors).toEqual([
+        { name: 'main', interval: 1, lastRun: now + MINUTE, nextRun: now + 2 * MINUTE, overdue: false },
+        { name: 'cdn', interval: 60, lastRun: now, nextRun: expect.any(Number), overdue: false },
+      ]);
+      expect(body.monitors[1].nextRun).toBeGreaterThan(now + MINUTE);
+      expect(body.lastTick.ran).toEqual(['main']);
+    } finally {
+      clock.mockRestore();
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('should claim the slot before checking so an overlapping run skips it', async () => {
+    const kv = createMemoryKV({ monitors: JSON.stringify([monitor('main')]) });
+    const env: Env = { UPTIME_KV: kv };
+    const originalFetch = globalThis.fetch;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    let overlapping: Promise<void> | undefined;
+    const fetchMock = jest.fn(async () => {
+      // The next cron run starts while this check is still in flight
+      clock.mockReturnValue(now + MINUTE);
+      overlapping ??= worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+      return new Response('ok');
+    });
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    try {
+      await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+      await overlapping;
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(kv.store.get('schedule')!).lastRuns).toEqual({ main: now });
+    } finally {
+      clock.mockRestore();
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('should drop deleted monitors from the schedule state', async () => {
+    const kv = createMemoryKV();
+    const env: Env = { UPTIME_KV: kv };
+    const sites = [monitor('main')];
+
+    await recordTick(env, { lastRuns: { main: now - 5 * MINUTE, old: now - 5 * MINUTE } }, sites, { due: sites, overdue: [], skipped: [] }, now);
+
+    expect(JSON.parse(kv.store.get('schedule')!).lastRuns).toEqual({ main: now });
+  });
+
+  it('should validate intervals', () => {
+    expect(validateMonitor({ ...monitor('main'), interval: 15 }).monitor).toMatchObject({ interval: 15 });
+    expect(validateMonitor({ ...monitor('main'), interval: 0.5 }).errors).toEqual(['interval must be an integer between 1 and 1440 minutes']);
+  });
+});
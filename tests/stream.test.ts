@@ -0,0 +1,181 @@
+import worker, { type Env, type UptimeData } from '../src/index';
+import type { RunAggregates } from '../src/aggregates';
+import { HEARTBEAT_INTERVAL, POLL_INTERVAL, STREAM_DURATION, STREAM_RETENTION, recordStreamEvents } from '../src/stream';
+import { createExecutionContext, createMemoryKV } from './testUtils';
+
+const MINUTE = 60 * 1000;
+const originalFetch = globalThis.fetch;
+
+describe('/api/stream', () => {
+  const now = Date.UTC(2025, 5, 20, 12, 0);
+  const decoder = new TextDecoder();
+  let kv: ReturnType<typeof createMemoryKV>;
+  let env: Env;
+  let readers: ReadableStreamDefaultReader<Uint8Array>[];
+  let aggregates: RunAggregates;
+
+  const result = (status: UptimeData['status'], offset = 0): UptimeData => ({ status, responseTime: 100, timestamp: now + offset });
+  // Event ids count up from the start of the minute they were written in, in microseconds
+  const id = (n: number, minute = now) => minute * 1000 + n;
+  const record = (results: { site: string; data: UptimeData }[]) => recordStreamEvents(env, aggregates, results);
+
+  const open = async (query = '', headers?: Record<string, string>) => {
+    const response = await worker.fetch(new Request(`https://status.example.com/api/stream${query}`, { headers }), env);
+    const reader = response.body!.getReader();
+    readers.push(reader);
+    const read = async (advance = POLL_INTERVAL) => {
+      const chunk = reader.read();
+      await jest.advanceTimersByTimeAsync(advance);
+      const { value, done } = await chunk;
+      return done ? null : decoder.decode(value);
+    };
+    return { response, read };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    kv = createMemoryKV({
+      monitors: JSON.stringify([
+        { name: 'main', url: 'https://teyvatarchive.online/', timeout: 5000 },
+        { name: 'api', url: 'https://api.teyvatarchive.online/', timeout: 5000 },
+      ]),
+      current_main: JSON.stringify(result('up')),
+    });
+    env = { UPTIME_KV: kv };
+    readers = [];
+    aggregates = {};
+  });
+
+  afterEach(async () => {
+    for (const reader of readers) {
+      await reader.cancel();
+    }
+    await jest.runOnlyPendingTimersAsync();
+    jest.useRealTimers();
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should start with a snapshot and then send new results and transitions', async () => {
+    await record([{ site: 'main', data: result('up') }]);
+    const { response, read } = await open();
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    expect(response.headers.get('Cache-Control')).toBe('no-cache');
+    expect(await read(0)).toBe(`retry: 5000\n\nid: ${id(0)}\nevent: snapshot\ndata: ${JSON.stringify({ main: result('up'), api: null })}\n\n`);
+
+    await record([
+      { site: 'main', data: result('down', MINUTE) },
+      { site: 'api', data: result('up', MINUTE) },
+    ]);
+
+    expect(await read()).toBe(
+      `id: ${id(1)}\nevent: transition\ndata: ${JSON.stringify({ site: 'main', from: 'up', data: result('down', MINUTE) })}\n\n` +
+        `id: ${id(2)}\nevent: result\ndata: ${JSON.stringify({ site: 'main', data: result('down', MINUTE) })}\n\n` +
+        `id: ${id(3)}\nevent: result\ndata: ${JSON.stringify({ site: 'api', data: result('up', MINUTE) })}\n\n`
+    );
+  });
+
+  it('should only send events of the requested sites', async () => {
+    const { read } = await open('?site=api');
+    expect(await read(0)).toContain(`data: ${JSON.stringify({ api: null })}`);
+
+    await record([
+      { site: 'main', data: result('up') },
+      { site: 'api', data: result('down') },
+    ]);
+
+    expect(await read()).toBe(`id: ${id(1)}\nevent: result\ndata: ${JSON.stringify({ site: 'api', data: result('down') })}\n\n`);
+  });
+
+  it('should resume after Last-Event-ID without a new snapshot', async () => {
+    await record([{ site: 'main', data: result('up') }]);
+    await record([{ site: 'main', data: result('down', MINUTE) }]);
+
+    const { read } = await open('', { 'Last-Event-ID': String(id(0)) });
+    const chunk = await read(0);
+
+    expect(chunk).not.toContain('snapshot');
+    expect(chunk).toContain(`id: ${id(1)}\nevent: transition`);
+    expect(chunk).toContain(`id: ${id(2)}\nevent: result`);
+    await expect((await open(`?lastEventId=${id(2)}`)).read(0)).resolves.toBe('retry: 5000\n\n');
+  });
+
+  it('should send a new snapshot when the missed events are past the retention window', async () => {
+    await record([{ site: 'api', data: result('up') }]);
+    jest.setSystemTime(now + 30 * MINUTE);
+    await record([{ site: 'api', data: result('down', 30 * MINUTE) }]);
+
+    jest.setSystemTime(now + STREAM_RETENTION - MINUTE);
+    const resumed = await (await open('', { 'Last-Event-ID': String(id(0)) })).read(0);
+    expect(resumed).not.toContain('snapshot');
+    expect(resumed).toContain(`id: ${id(1, now + 30 * MINUTE)}\nevent: result`);
+
+    jest.setSystemTime(now + STREAM_RETENTION);
+    const { read } = await open('', { 'Last-Event-ID': String(id(0)) });
+    expect(await read(0)).toContain(`id: ${id(0, now + STREAM_RETENTION) - 1}\nevent: snapshot`);
+  });
+
+  it('should send heartbeats while nothing happens and end the stream eventually', async () => {
+    const { read } = await open();
+    await read(0);
+
+    expect(await read(HEARTBEAT_INTERVAL)).toBe(': heartbeat\n\n');
+
+    let chunk: string | null = '';
+    for (let elapsed = HEARTBEAT_INTERVAL; chunk !== null && elapsed <= STREAM_DURATION; elapsed += HEARTBEAT_INTERVAL) {
+      chunk = await read(HEARTBEAT_INTERVAL);
+    }
+    expect(chunk).toBeNull();
+  });
+
+  it('should reject unknown sites and malformed event ids', async () => {
+    const unknown = await worker.fetch(new Request('https://status.example.com/api/stream?site=main&site=wiki'), env);
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toEqual({ error: "Monitor 'wiki' not found" });
+
+    const malformed = await worker.fetch(new Request('https://status.example.com/api/stream', { headers: { 'Last-Event-ID': 'latest' } }), env);
+    expect(malformed.status).toBe(400);
+  });
+
+  it('should keep the events of runs that write in different minutes apart', async () => {
+    const { read } = await open();
+    await read(0);
+
+    await record([{ site: 'main', data: result('up') }]);
+    jest.setSystemTime(now + MINUTE);
+    await record([{ site: 'api', data: result('up', MINUTE) }]);
+
+    expect(JSON.parse(kv.store.get(`stream_events_${now}`)!).map((event: any) => event.id)).toEqual([id(0)]);
+    expect(JSON.parse(kv.store.get(`stream_events_${now + MINUTE}`)!).map((event: any) => event.id)).toEqual([id(0, now + MINUTE)]);
+    const chunk = await read();
+    expect(chunk).toContain(`id: ${id(0)}\nevent: result`);
+    expect(chunk).toContain(`id: ${id(0, now + MINUTE)}\nevent: result`);
+  });
+
+  it('should log the results of scheduled runs', async () => {
+    globalThis.fetch = jest.fn(async (url: string) => new Response(null, { status: url.includes('api.') ? 503 : 200 })) as unknown as typeof fetch;
+
+    await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+
+    const events = JSON.parse(kv.store.get(`stream_events_${now}`)!);
+    expect(events.map((event: any) => `${event.id} ${event.type} ${event.site} ${event.data.status}`)).toEqual([`${id(0)} result main up`, `${id(1)} result api down`]);
+  });
+
+  it('should send the results of push monitors once a scheduled run evaluates them', async () => {
+    globalThis.fetch = jest.fn(async () => new Response(null, { status: 200 })) as unknown as typeof fetch;
+    const scraper = { type: 'push', name: 'scraper', token: 'scraper-0123456789abcdef', heartbeatInterval: 60 * MINUTE, createdAt: now - MINUTE };
+    kv.store.set('monitors', JSON.stringify([scraper]));
+    await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+    const { read } = await open();
+    await read(0);
+
+    jest.setSystemTime(now + 5 * MINUTE);
+    await worker.fetch(new Request(`https://status.example.com/api/push/${scraper.token}?status=down&message=crawl%20failed`), env);
+    await worker.scheduled({} as ScheduledEvent, env, createExecutionContext());
+
+    const chunk = await read();
+    expect(chunk).toContain(`id: ${id(0, now + 5 * MINUTE)}\nevent: transition\ndata: {"site":"scraper","from":"up"`);
+    expect(chunk).toContain(`id: ${id(1, now + 5 * MINUTE)}\nevent: result\ndata: {"site":"scraper"`);
+    expect(chunk).toContain('"error":"crawl failed"');
+  });
+});
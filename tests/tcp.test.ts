@@ -0,0 +1,107 @@
+/// <reference types="node" />
+import { createServer, type Server, type Socket as NetSocket } from 'net';
+import type { AddressInfo } from 'net';
+import { checkSite, validateMonitor, type Env, type TcpCheck } from '../src/index';
+import { probeTcp } from '../src/tcp';
+import { createMemoryKV } from './testUtils';
+
+// Local TCP server; `onConnection` decides what the monitored service says
+const startServer = async (onConnection: (socket: NetSocket) => void) => {
+  const sockets = new Set<NetSocket>();
+  const server: Server = createServer(socket => {
+    sockets.add(socket);
+    socket.on('error', () => undefined);
+    onConnection(socket);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    port,
+    close: () =>
+      new Promise<void>(resolve => {
+        sockets.forEach(socket => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+};
+
+describe('TCP monitors', () => {
+  let server: Awaited<ReturnType<typeof startServer>> | undefined;
+  const site = (overrides: Partial<TcpCheck> = {}): TcpCheck => ({
+    type: 'tcp',
+    name: 'db-proxy',
+    host: '127.0.0.1',
+    port: server!.port,
+    timeout: 2000,
+    ...overrides,
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it('should check the banner and store the connect time', async () => {
+    server = await startServer(socket => socket.write('220 sync-service ready\r\n'));
+    const kv = createMemoryKV();
+    const env: Env = { UPTIME_KV: kv };
+
+    const data = await checkSite(site({ expect: '220' }), env);
+
+    expect(data).toMatchObject({ status: 'up', connectTime: expect.any(Number) });
+    expect(data.statusCode).toBeUndefined();
+    expect(JSON.parse(kv.store.get('current_db-proxy')!)).toEqual(data);
+  });
+
+  it('should send a payload and check the reply', async () => {
+    server = await startServer(socket =>
+      socket.on('data', chunk => (String(chunk).trim() === 'PING' ? socket.write('+PONG\r\n') : socket.end('-ERR unknown command\r\n')))
+    );
+
+    await expect(probeTcp(site({ send: 'PING\r\n', expect: '+PONG' }))).resolves.toMatchObject({ status: 'up' });
+    await expect(probeTcp(site({ send: 'HELLO\r\n', expect: '+PONG' }))).resolves.toMatchObject({
+      status: 'down',
+      error: "Response did not contain '+PONG'",
+    });
+  });
+
+  it('should report a closed port as down', async () => {
+    server = await startServer(() => undefined);
+    const { port } = server;
+    await server.close();
+    server = undefined;
+
+    const data = await probeTcp({ type: 'tcp', name: 'gone', host: '127.0.0.1', port, timeout: 2000 });
+
+    expect(data.status).toBe('down');
+    expect(data.error).toMatch(/ECONNREFUSED/);
+    expect(data.connectTime).toBeUndefined();
+  });
+
+  it('should time out when the expected response never arrives', async () => {
+    server = await startServer(() => undefined);
+
+    const data = await probeTcp(site({ expect: 'ready', timeout: 200 }));
+
+    expect(data).toMatchObject({ status: 'down', error: 'Timed out after 200 ms' });
+  });
+
+  it('should validate TCP monitors', () => {
+    expect(validateMonitor({ type: 'tcp', name: 'db', host: 'db.internal', port: 5432, timeout: 3000, expect: 'ok' }).monitor).toEqual({
+      type: 'tcp',
+      name: 'db',
+      host: 'db.internal',
+      port: 5432,
+      timeout: 3000,
+      expect: 'ok',
+    });
+    expect(validateMonitor({ type: 'tcp', name: 'db', host: 'not a host', port: 70000, timeout: 3000, url: 'https://example.com' }).errors).toEqual([
+      'host must be a hostname or IPv4 address',
+      'port must be an integer between 1 and 65535',
+      'url is only supported for http monitors',
+    ]);
+    expect(validateMonitor({ type: 'udp', name: 'db', timeout: 3000 }).errors).toEqual(['type must be one of http, tcp, dns, transaction, push']);
+  });
+});
@@ -77,3 +77,57 @@ export const mockFetch = (responses: Response | Response[]) => {
     },
   };
 };
+
+// In-memory KV namespace for tests that need reads to see earlier writes
+export const createMemoryKV = (initial: Record<string, string> = {}) => {
+  const store = new Map<string, string>(Object.entries(initial));
+  const metadata = new Map<string, unknown>();
+
+  const kv = {
+    store,
+    put: jest.fn(async (key: string, value: string, options: { metadata?: unknown } = {}) => {
+      store.set(key, value);
+      if (options.metadata === undefined) {
+        metadata.delete(key);
+      } else {
+        metadata.set(key, options.metadata);
+      }
+    }),
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    list: jest.fn(async (options: { prefix?: string } = {}) => ({
+      keys: [...store.keys()]
+        .filter(name => name.startsWith(options.prefix ?? ''))
+        .sort()
+        .map(name => (metadata.has(name) ? { name, metadata: metadata.get(name) } : { name })),
+      list_complete: true,
+    })),
+    delete: jest.fn(async (key: string) => {
+      store.delete(key);
+      metadata.delete(key);
+    }),
+    getWithMetadata: jest.fn(async (key: string) => ({ value: store.get(key) ?? null, metadata: metadata.get(key) ?? null })),
+  };
+
+  return kv as unknown as KVNamespace & { store: Map<string, string> };
+};
+
+// Start times of the built-in monitors, as stored on their first check; uptime is only counted from there
+export const firstChecks = (timestamp: number): Record<string, string> =>
+  Object.fromEntries(['main', 'dashboard', 'api', 'cdn'].map(site => [`first_check_${site}`, String(timestamp)]));
+
+// Admin key for tests that call the management API through the worker
+export const TEST_ADMIN_KEY = 'test-admin-key';
+export const ADMIN_HEADERS = { Authorization: `Bearer ${TEST_ADMIN_KEY}` };
+
+// Execution context that collects `waitUntil` work, so tests can wait for it to settle
+export const createExecutionContext = () => {
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => {
+      pending.push(promise);
+    },
+    passThroughOnException: () => undefined,
+    props: {},
+  };
+  return Object.assign(ctx as ExecutionContext, { settle: () => Promise.all(pending) });
+};
@@ -0,0 +1,169 @@
+/// <reference types="node" />
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { checkSite, validateMonitor, type Env, type TransactionCheck } from '../src/index';
+import { interpolate, probeTransaction } from '../src/transaction';
+import { createMemoryKV } from './testUtils';
+
+// Local API with a login flow: POST /login issues a token that GET /orders requires
+const startApi = async () => {
+  const requests: string[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push([req.method, req.url, req.headers.authorization, body].filter(Boolean).join(' '));
+
+      if (req.url === '/login' && req.method === 'POST') {
+        const { user } = JSON.parse(body || '{}');
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('X-Session', `session-${user}`);
+        res.end(JSON.stringify({ auth: { token: `token-${user}` }, expires: 3600 }));
+      } else if (req.url === '/orders' && req.headers.authorization?.startsWith('Bearer token-')) {
+        res.setHeader('Content-Type', 'text/html');
+        res.end('<p>Latest order: <b id="order">A-1024</b></p>');
+      } else if (req.url === '/orders/A-1024') {
+        res.end('shipped');
+      } else {
+        res.statusCode = 401;
+        res.end('unauthorized');
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+describe('Transaction monitors', () => {
+  let api: Awaited<ReturnType<typeof startApi>>;
+  const site = (overrides: Partial<TransactionCheck> = {}): TransactionCheck => ({
+    type: 'transaction',
+    name: 'checkout',
+    timeout: 2000,
+    variables: { user: 'paimon' },
+    steps: [
+      {
+        name: 'login',
+        url: `${api.url}/login`,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: '{"user":"{{user}}"}',
+        extract: [
+          { name: 'token', type: 'jsonPath', path: 'auth.token' },
+          { name: 'session', type: 'header', header: 'x-session' },
+        ],
+      },
+      {
+        name: 'orders',
+        url: `${api.url}/orders`,
+        headers: { Authorization: 'Bearer {{token}}' },
+        assertions: [{ type: 'contains', value: 'Latest order' }],
+        extract: [{ name: 'order', type: 'regex', pattern: '<b id="order">([^<]+)</b>' }],
+      },
+      { url: `${api.url}/orders/{{order}}`, expectedStatus: [200] },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    api = await startApi();
+  });
+
+  afterEach(async () => {
+    await api.close();
+  });
+
+  it('should run the steps in order and pass extracted values along', async () => {
+    const kv = createMemoryKV();
+    const env: Env = { UPTIME_KV: kv };
+
+    const data = await checkSite(site(), env);
+
+    expect(data).toMatchObject({ status: 'up', statusCode: 200, responseTime: expect.any(Number) });
+    expect(data.steps).toEqual([
+      { name: 'login', statusCode: 200, responseTime: expect.any(Number) },
+      { name: 'orders', statusCode: 200, responseTime: expect.any(Number) },
+      { name: `GET ${api.url}/orders/{{order}}`, statusCode: 200, responseTime: expect.any(Number) },
+    ]);
+    expect(api.requests).toEqual(['POST /login {"user":"paimon"}', 'GET /orders Bearer token-paimon', 'GET /orders/A-1024']);
+    expect(JSON.parse(kv.store.get('current_checkout')!).steps).toHaveLength(3);
+  });
+
+  it('should stop at the first failing step', async () => {
+    const steps = site().steps;
+    steps[1].headers = { Authorization: 'Bearer {{session}}' };
+
+    const data = await probeTransaction(site({ steps }));
+
+    expect(data).toMatchObject({ status: 'down', statusCode: 401, failedStep: 1, error: 'Step 2 (orders) failed: HTTP 401' });
+    expect(data.steps).toHaveLength(2);
+    expect(api.requests).toHaveLength(2);
+  });
+
+  it('should fail on extractions that do not match and unknown variables', async () => {
+    const steps = site().steps;
+    steps[0].extract = [{ name: 'token', type: 'jsonPath', path: 'auth.refresh' }];
+    await expect(probeTransaction(site({ steps }))).resolves.toMatchObject({
+      failedStep: 0,
+      error: "Step 1 (login) failed: JSON path auth.refresh not found for 'token'",
+    });
+
+    await expect(probeTransaction(site({ variables: {} }))).resolves.toMatchObject({
+      status: 'down',
+      failedStep: 0,
+      error: "Step 1 (login) failed: Unknown variable 'user'",
+    });
+    expect(interpolate('{{ a }}-{{b}}', { a: '1', b: '2' })).toBe('1-2');
+    // Inherited properties are not variables
+    expect(() => interpolate('{{constructor}}', {})).toThrow("Unknown variable 'constructor'");
+  });
+
+  it('should validate transaction monitors', () => {
+    expect(
+      validateMonitor({ type: 'transaction', name: 'checkout', timeout: 5000, steps: [{ url: 'https://teyvatarchive.online/api/{{version}}/health' }], variables: { version: 'v2' } })
+        .monitor
+    ).toEqual({
+      type: 'transaction',
+      name: 'checkout',
+      timeout: 5000,
+      steps: [{ url: 'https://teyvatarchive.online/api/{{version}}/health' }],
+      variables: { version: 'v2' },
+    });
+    expect(validateMonitor({ type: 'transaction', name: 'checkout', timeout: 5000, steps: [] }).errors).toEqual(['steps must be an array of 1-10 steps']);
+    expect(
+      validateMonitor({
+        type: 'transaction',
+        name: 'checkout',
+        timeout: 5000,
+        url: 'https://teyvatarchive.online',
+        variables: { 'user-name': 'paimon' },
+        steps: [
+          {
+            url: 'ftp://teyvatarchive.online',
+            method: 'FETCH',
+            expectedStatus: [99],
+            extract: [{ name: 'token', type: 'xpath' }, { name: '1st', type: 'regex', pattern: '(' }],
+          },
+          { url: 'https://teyvatarchive.online/login', body: 'x' },
+        ],
+      }).errors
+    ).toEqual([
+      'steps[0].url must be an http or https URL',
+      'steps[0].method must be one of GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS',
+      "steps[0].expectedStatus must be an array of status codes (100-599) or ranges like '200-299'",
+      'steps[0].extract[0].type must be one of jsonPath, header, regex',
+      'steps[0].extract[1].name must be a variable name of letters, digits and underscores',
+      'steps[0].extract[1] must have a valid pattern and a non-negative integer group',
+      'steps[1].body must be a string and cannot be sent with GET or HEAD',
+      'variables must map variable names to strings',
+      'url is only supported for http monitors',
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import worker, { checkSite, type Env, type Incident, type SiteCheck } from '../src/index';
+import { computeUptime, parseWindow } from '../src/uptime';
+import { createMemoryKV, firstChecks } from './testUtils';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const incident = (startedAt: number, resolvedAt?: number): Incident => ({
+  id: `main-${startedAt}`,
+  site: 'main',
+  status: resolvedAt === undefined ? 'open' : 'resolved',
+  severity: 'down',
+  startedAt,
+  ...(resolvedAt === undefined ? {} : { resolvedAt, durationMs: resolvedAt - startedAt }),
+  cause: { statusCode: 500 },
+  checks: 1,
+  lastCheckedAt: startedAt,
+});
+
+describe('uptime', () => {
+  const site: SiteCheck = { name: 'main', url: 'https://example.com', timeout: 5000, createdAt: 0 };
+
+  describe('computeUptime', () => {
+    it('should report full uptime without incidents', () => {
+      expect(computeUptime(site, [], 0, DAY, DAY)).toEqual({
+        site: 'main',
+        from: 0,
+        to: DAY,
+        monitoredMs: DAY,
+        maintenanceMs: 0,
+        uptimePercent: 100,
+        downtimeMs: 0,
+        degradedMs: 0,
+        outages: 0,
+        mttrMs: null,
+        mtbfMs: null,
+      });
+    });
+
+    it('should compute downtime, MTTR and MTBF from incidents', () => {
+      const report = computeUptime(site, [incident(2 * HOUR, 3 * HOUR), incident(10 * HOUR, 10 * HOUR + 30 * 60 * 1000)], 0, DAY, DAY);
+
+      expect(report.downtimeMs).toBe(1.5 * HOUR);
+      expect(report.outages).toBe(2);
+      expect(report.uptimePercent).toBe(93.75);
+      expect(report.mttrMs).toBe(45 * 60 * 1000);
+      expect(report.mtbfMs).toBe(11.25 * HOUR);
+    });
+
+    it('should never round a window with downtime up to full uptime', () => {
+      const report = computeUptime(site, [incident(DAY, DAY + 1000)], 0, 30 * DAY, 30 * DAY);
+
+      expect(report.uptimePercent).toBe(99.9999);
+    });
+
+    it('should clip incidents to the window and count open incidents until now', () => {
+      const report = computeUptime(site, [incident(-HOUR, HOUR), incident(DAY - 2 * HOUR)], 0, DAY, DAY - HOUR);
+
+      expect(report.downtimeMs).toBe(2 * HOUR);
+      expect(report.outages).toBe(2);
+      expect(report.mttrMs).toBe(2 * HOUR);
+    });
+
+    it('should count degraded time as up unless the policy says otherwise', () => {
+      const incidents = [{ ...incident(2 * HOUR, 4 * HOUR), severity: 'degraded' as const }, incident(10 * HOUR, 11 * HOUR)];
+
+      expect(computeUptime(site, incidents, 0, DAY, DAY)).toMatchObject({ downtimeMs: HOUR, degradedMs: 2 * HOUR, outages: 1 });
+      expect(computeUptime({ ...site, degraded: { threshold: 1000, countsAsUp: false } }, incidents, 0, DAY, DAY)).toMatchObject({
+        downtimeMs: 3 * HOUR,
+        degradedMs: 2 * HOUR,
+        outages: 2,
+      });
+    });
+
+    it('should not count time before the monitor was created', () => {
+      const report = computeUptime({ ...site, createdAt: DAY / 2 }, [incident(DAY / 2, DAY / 2 + HOUR)], 0, DAY, DAY);
+
+      expect(report.monitoredMs).toBe(DAY / 2);
+      expect(report.uptimePercent).toBeCloseTo((11 / 12) * 100, 3);
+    });
+
+    it('should report no uptime for monitors without a start time', () => {
+      const { createdAt, ...unstarted } = site;
+
+      expect(computeUptime(unstarted, [], 0, DAY, DAY)).toMatchObject({ monitoredMs: 0, uptimePercent: null });
+    });
+
+    it('should not count time before incidents are kept', () => {
+      const now = 1000 * DAY;
+
+      expect(computeUptime(site, [], 0, now, now).monitoredMs).toBe(400 * DAY);
+    });
+  });
+
+  describe('parseWindow', () => {
+    const now = 100 * DAY;
+
+    it('should resolve named windows and default to 24 hours', () => {
+      expect(parseWindow(new URLSearchParams('window=7d'), now)).toEqual({ from: now - 7 * DAY, to: now });
+      expect(parseWindow(new URLSearchParams(''), now)).toEqual({ from: now - DAY, to: now });
+    });
+
+    it('should accept custom ranges and cap them at now', () => {
+      expect(parseWindow(new URLSearchParams(`from=${DAY}&to=${200 * DAY}`), now)).toEqual({ from: DAY, to: now });
+    });
+
+    it('should reject invalid combinations', () => {
+      expect(parseWindow(new URLSearchParams('window=1y'), now)).toBe('window must be one of 24h, 7d, 30d, 90d');
+      expect(parseWindow(new URLSearchParams(`window=7d&from=${DAY}`), now)).toBe('window cannot be combined with from and to');
+      expect(parseWindow(new URLSearchParams(`to=${DAY}`), now)).toBe('to requires from');
+      expect(parseWindow(new URLSearchParams(`from=${2 * DAY}&to=${DAY}`), now)).toBe('from must be before to and in the past');
+    });
+  });
+
+  describe('/api/uptime', () => {
+    let kv: ReturnType<typeof createMemoryKV>;
+    let mockEnv: Env;
+    const originalDateNow = Date.now;
+    const originalFetch = globalThis.fetch;
+
+    beforeEach(() => {
+      kv = createMemoryKV(firstChecks(0));
+      mockEnv = { UPTIME_KV: kv };
+      Date.now = jest.fn().mockReturnValue(100 * DAY);
+    });
+
+    afterEach(() => {
+      Date.now = originalDateNow;
+    });
+
+    it('should report uptime for a single site', async () => {
+      const outage = incident(100 * DAY - 12 * HOUR, 100 * DAY - 9 * HOUR);
+      kv.store.set(`incident_main_${outage.startedAt}`, JSON.stringify(outage));
+
+      const response = await worker.fetch(new Request('https://example.com/api/uptime?site=main&window=24h'), mockEnv);
+      const result: any = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(result).toMatchObject({ site: 'main', uptimePercent: 87.5, downtimeMs: 3 * HOUR, outages: 1, mttrMs: 3 * HOUR });
+    });
+
+    it('should count monitors without a creation time from their first check', async () => {
+      const outage = incident(100 * DAY - 2 * HOUR, 100 * DAY - HOUR);
+      kv.store.set(`incident_main_${outage.startedAt}`, JSON.stringify(outage));
+      kv.store.set('first_check_main', String(100 * DAY - 4 * HOUR));
+
+      const response = await worker.fetch(new Request('https://example.com/api/uptime?site=main&window=24h'), mockEnv);
+
+      expect(await response.json()).toMatchObject({ monitoredMs: 4 * HOUR, uptimePercent: 75 });
+    });
+
+    it('should record the first check, starting monitors with history at their oldest entry', async () => {
+      kv.store.clear();
+      kv.store.set(`history_day_api_${99 * DAY}`, JSON.stringify([{ status: 'up', responseTime: 1, timestamp: 99 * DAY + HOUR }]));
+      globalThis.fetch = jest.fn().mockResolvedValue(new Response('ok')) as typeof fetch;
+
+      try {
+        await checkSite({ name: 'main', url: 'https://example.com', timeout: 5000 }, mockEnv);
+        await checkSite({ name: 'api', url: 'https://example.com', timeout: 5000 }, mockEnv);
+        await checkSite({ name: 'api', url: 'https://example.com', timeout: 5000 }, mockEnv);
+        await checkSite({ name: 'wiki', url: 'https://example.com', timeout: 5000, createdAt: 50 * DAY }, mockEnv);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+
+      expect(kv.store.get('first_check_main')).toBe(String(100 * DAY));
+      expect(kv.store.get('first_check_api')).toBe(String(99 * DAY + HOUR));
+      expect(kv.store.has('first_check_wiki')).toBe(false);
+    });
+
+    it('should report every monitor when no site is given', async () => {
+      const response = await worker.fetch(new Request('https://example.com/api/uptime?window=30d'), mockEnv);
+      const result: any = await response.json();
+
+      expect(result.map((report: any) => report.site)).toEqual(['main', 'dashboard', 'api', 'cdn']);
+      expect(result.every((report: any) => report.uptimePercent === 100)).toBe(true);
+    });
+
+    it('should return 404 for unknown sites and 400 for bad windows', async () => {
+      expect((await worker.fetch(new Request('https://example.com/api/uptime?site=nope'), mockEnv)).status).toBe(404);
+      expect((await worker.fetch(new Request('https://example.com/api/uptime?window=1y'), mockEnv)).status).toBe(400);
+    });
+  });
+});
@@ -34,7 +34,7 @@ describe('Worker Integration Tests', () => {
   });
 
   describe('fetch handler', () => {
-    it('should return API description for root path', async () => {
+    it('should serve the status page for root path', async () => {
       // Arrange
       const request = new Request('https://example.com/');
 
@@ -42,6 +42,20 @@ describe('Worker Integration Tests', () => {
       const response = await worker.fetch(request, mockEnv);
       const result = await response.text();
 
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+      expect(result).toContain('<title>Teyvat Archive Status</title>');
+    });
+
+    it('should return API description for unknown paths', async () => {
+      // Arrange
+      const request = new Request('https://example.com/api');
+
+      // Act
+      const response = await worker.fetch(request, mockEnv);
+      const result = await response.text();
+
       // Assert
       expect(response.status).toBe(200);
       expect(result).toBe('Teyvat Archive Uptime Monitor API');
@@ -115,6 +129,7 @@ describe('Worker Integration Tests', () => {
       MONITORED_SITES.forEach((site, index) => {
         expect(mockFetch).toHaveBeenNthCalledWith(index + 1, site.url, {
           signal: expect.any(AbortSignal),
+          redirect: 'manual',
           headers: { 
             'User-Agent': 'Mozilla/5.0 (compatible; TeyvatArchive-Monitor/1.0)',
             'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
@@ -123,8 +138,10 @@ describe('Worker Integration Tests', () => {
       });
 
       // Check that KV storage was called for each site
-      // Each site makes 3 put calls: current, history, last_history (since it's first time)
-      expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledTimes(MONITORED_SITES.length * 3);
+      // Each site makes 4 put calls: current, history, last_history and first_check (since it's first time)
+      // plus shared writes of the run aggregates, the stream event log, the schedule state
+      // and the history migration marker (there is no legacy history to migrate)
+      expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledTimes(MONITORED_SITES.length * 4 + 4);
 
       // Restore Date.now
       Date.now = originalDateNow;
@@ -150,8 +167,11 @@ describe('Worker Integration Tests', () => {
 
       // Assert
       expect(mockFetch).toHaveBeenCalledTimes(4);
-      // Each site makes 3 put calls: current, history, last_history (since it's first time)
-      expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledTimes(12); // 4 sites * 3 calls each
+      // Each site makes 4 put calls: current, history, last_history and first_check (since it's first time)
+      // and the two failing sites open an incident (incident record + open pointer),
+      // plus shared writes of the run aggregates, the stream event log, the schedule state
+      // and the history migration marker
+      expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledTimes(24); // 4 sites * 4 calls each + 2 * 2 + 4
 
       // Verify that both current and history data was stored for each site
       expect(mockEnv.UPTIME_KV.put).toHaveBeenCalledWith(